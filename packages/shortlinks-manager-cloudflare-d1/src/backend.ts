@@ -1,55 +1,345 @@
-import { type IShortLinksManagerBackend } from "@potonz/shortlinks-manager";
+import {
+    BackendUnavailableError,
+    hashTargetUrl,
+    type IListShortLinksOptions,
+    type INewShortLink,
+    type IShortLink,
+    type IShortLinkAttributes,
+    type IShortLinksAnalytics,
+    type IShortLinksManagerBackend,
+    type IShortLinksPage,
+    type IVisitEvent,
+    ShortIdConflictError,
+    ValidationError,
+    wrapErrors,
+} from "@potonz/shortlinks-manager";
 
-import { formatDbDateTime } from "./utils";
+import { DEFAULT_TABLE_PREFIX, getMigrations, type IMigration } from "./migrations";
+import { assertValidTablePrefix, decodeCursor, encodeCursor, escapeLikePattern, formatDbDateTime, getUrlHost, isMissingTableError, parseDbDateTime } from "./utils";
 
-export interface IShortLinksManagerD1Backend extends IShortLinksManagerBackend {
-    setupTables: () => Promise<void>;
+// Most links returned by a page of listShortLinks, so a single call cannot read the whole table
+const MAX_LIST_LIMIT = 1000;
+
+// Number of links updated per batch when filling in columns of existing links
+const BACKFILL_BATCH_SIZE = 100;
+
+const SHORT_LINK_COLUMNS = "short_id, target_url, created_at, last_accessed_at, expires_at, password_hash, remaining_clicks, archived_at, owner_id";
+
+interface IShortLinkRow {
+    short_id: string;
+    target_url: string;
+    created_at: string;
+    last_accessed_at: string | null;
+    expires_at: string | null;
+    password_hash: string | null;
+    remaining_clicks: number | null;
+    archived_at: string | null;
+    owner_id: string | null;
+}
+
+function toShortLink(row: IShortLinkRow): IShortLink {
+    return {
+        shortId: row.short_id,
+        targetUrl: row.target_url,
+        createdAt: parseDbDateTime(row.created_at),
+        lastAccessedAt: row.last_accessed_at ? parseDbDateTime(row.last_accessed_at) : null,
+        expiresAt: row.expires_at ? parseDbDateTime(row.expires_at) : null,
+        passwordHash: row.password_hash,
+        remainingClicks: row.remaining_clicks,
+        archivedAt: row.archived_at ? parseDbDateTime(row.archived_at) : null,
+        ownerId: row.owner_id,
+    };
+}
+
+const SORT_COLUMNS = {
+    createdAt: "created_at",
+    lastAccessedAt: "IFNULL(last_accessed_at, '')",
+} as const;
+
+export interface IDailyClicks {
+    /**
+     * Date in `YYYY-MM-DD` format
+     */
+    date: string;
+    clicks: number;
 }
 
-export function createD1Backend(db: D1Database): IShortLinksManagerD1Backend {
+export interface IReferrerClicks {
+    /**
+     * null for direct visits
+     */
+    referrer: string | null;
+    clicks: number;
+}
+
+export interface IShortLinksManagerD1Backend extends IShortLinksManagerBackend, IShortLinksAnalytics {
+    /**
+     * Create the tables or bring them up to date by applying the pending migrations,
+     * then fill in the target host and hash of links created by older versions.
+     * Safe to call every time the backend is created
+     * @returns the migrations that have been applied
+     */
+    setupTables: () => Promise<IMigration[]>;
+    /**
+     * Get the version of the last applied migration, 0 if the tables have not been set up
+     */
+    getSchemaVersion: () => Promise<number>;
+    /**
+     * Get the migrations {@link setupTables} would apply, without applying them
+     */
+    getPendingMigrations: () => Promise<IMigration[]>;
+    getShortLink: NonNullable<IShortLinksManagerBackend["getShortLink"]>;
+    cleanExpiredLinks: NonNullable<IShortLinksManagerBackend["cleanExpiredLinks"]>;
+    listShortLinks: NonNullable<IShortLinksManagerBackend["listShortLinks"]>;
+    findShortIdByTargetUrl: NonNullable<IShortLinksManagerBackend["findShortIdByTargetUrl"]>;
+    createShortLinks: NonNullable<IShortLinksManagerBackend["createShortLinks"]>;
+    consumeClick: NonNullable<IShortLinksManagerBackend["consumeClick"]>;
+    restoreShortLink: NonNullable<IShortLinksManagerBackend["restoreShortLink"]>;
+    purgeArchivedLinks: NonNullable<IShortLinksManagerBackend["purgeArchivedLinks"]>;
+    updateOwnedTargetUrl: NonNullable<IShortLinksManagerBackend["updateOwnedTargetUrl"]>;
+    deleteOwnedShortLink: NonNullable<IShortLinksManagerBackend["deleteOwnedShortLink"]>;
+    countShortLinksByOwner: NonNullable<IShortLinksManagerBackend["countShortLinksByOwner"]>;
+    getShortIdLength: NonNullable<IShortLinksManagerBackend["getShortIdLength"]>;
+    increaseShortIdLength: NonNullable<IShortLinksManagerBackend["increaseShortIdLength"]>;
+    countShortIdsOfLength: NonNullable<IShortLinksManagerBackend["countShortIdsOfLength"]>;
+    recordVisit: (event: IVisitEvent) => Promise<void>;
+    /**
+     * Get the number of recorded visits for the short ID
+     * @param shortId
+     */
+    getTotalClicks: (shortId: string) => Promise<number>;
+    /**
+     * Get the number of recorded visits for each day with visits
+     * @param shortId
+     * @param days number of days to look back, including today. Defaults to 30
+     */
+    getClicksPerDay: (shortId: string, days?: number) => Promise<IDailyClicks[]>;
+    /**
+     * Get the referrers with the most recorded visits
+     * @param shortId
+     * @param limit Defaults to 10
+     */
+    getTopReferrers: (shortId: string, limit?: number) => Promise<IReferrerClicks[]>;
+}
+
+export interface ID1BackendOptions {
+    /**
+     * Prepended to all table and index names, e.g. `brand_a_` to keep the links of one short domain
+     * apart from others in the same database. Only letters, digits and `_` are allowed.
+     * Also used to scope cache keys, so backends with different prefixes can share a cache. Defaults to `sl_`
+     */
+    tablePrefix?: string;
+    /**
+     * Archive links removed by the cleanups instead of deleting them.
+     * Archived links stop resolving but keep their short ID taken until purged,
+     * so it is not reused for another target URL. Defaults to `false`
+     */
+    softDelete?: boolean;
+    /**
+     * Number of days archived links are kept before {@link IShortLinksManagerD1Backend#purgeArchivedLinks} deletes them.
+     * Defaults to `30`
+     */
+    quarantineDays?: number;
+    /**
+     * Number of seconds a count of {@link IShortLinksManagerD1Backend#countShortIdsOfLength} is stored and reused
+     * before the links table is scanned again. Defaults to `600`
+     */
+    shortIdCountMaxAge?: number;
+}
+
+export function createD1Backend(db: D1Database, options: ID1BackendOptions = {}): IShortLinksManagerD1Backend {
+    const { tablePrefix = DEFAULT_TABLE_PREFIX, softDelete = false, quarantineDays = 30, shortIdCountMaxAge = 600 } = options;
+
+    assertValidTablePrefix(tablePrefix);
+
+    const linksTable = `${tablePrefix}links_map`;
+    const visitsTable = `${tablePrefix}link_visits`;
+    const schemaVersionTable = `${tablePrefix}schema_version`;
+    const settingsTable = `${tablePrefix}settings`;
+    const migrations = getMigrations(tablePrefix);
+    // Start of the statements removing links swept by the cleanups
+    const removeLinksSql = softDelete
+        ? `UPDATE ${linksTable} SET archived_at = datetime(CURRENT_TIMESTAMP)`
+        : `DELETE FROM ${linksTable}`;
+
+    async function getSchemaVersion(): Promise<number> {
+        try {
+            const result = await db.prepare(`SELECT MAX(version) AS version FROM ${schemaVersionTable}`).first<{ version: number | null }>();
+            return result?.version ?? 0;
+        }
+        catch (err) {
+            if (isMissingTableError(err)) {
+                return 0;
+            }
+            throw err;
+        }
+    }
+
+    async function getPendingMigrations(): Promise<IMigration[]> {
+        const version = await getSchemaVersion();
+        return migrations.filter(migration => migration.version > version);
+    }
+
+    /**
+     * Fill in the target host and hash of links created before they were stored,
+     * so the links are matched by the domain filter and reused for the same target URL.
+     * Computed in JS like for new links, a batch at a time
+     */
+    async function backfillTargetHostAndHash() {
+        const selectStmt = db.prepare(`SELECT short_id, target_url FROM ${linksTable} WHERE target_hash IS NULL LIMIT ?`);
+        const updateStmt = db.prepare(`UPDATE ${linksTable} SET target_host = ?, target_hash = ? WHERE short_id = ? AND target_hash IS NULL`);
+
+        for (;;) {
+            const { results } = await selectStmt.bind(BACKFILL_BATCH_SIZE).all<{ short_id: string; target_url: string }>();
+            if (results.length === 0) {
+                return;
+            }
+
+            await db.batch(await Promise.all(results.map(async ({ short_id, target_url }) =>
+                updateStmt.bind(getUrlHost(target_url), await hashTargetUrl(target_url), short_id))));
+
+            if (results.length < BACKFILL_BATCH_SIZE) {
+                return;
+            }
+        }
+    }
+
     let stmt_getLink: D1PreparedStatement | null = null;
-    let stmt_getShortIdsExist: D1PreparedStatement | null = null;
-    let stmt_createShortLinkMap: D1PreparedStatement | null = null;
+    let stmt_getShortLink: D1PreparedStatement | null = null;
+    // Keyed by the number of placeholders
+    const stmts_getShortIdsExist = new Map<number, D1PreparedStatement>();
+    let stmt_findShortIdByTargetHash: D1PreparedStatement | null = null;
+    let stmt_createShortLinkMapIfNotExists: D1PreparedStatement | null = null;
+    let stmt_updateTargetUrl: D1PreparedStatement | null = null;
+    let stmt_updateOwnedTargetUrl: D1PreparedStatement | null = null;
+    let stmt_deleteShortLink: D1PreparedStatement | null = null;
+    let stmt_deleteOwnedShortLink: D1PreparedStatement | null = null;
+    let stmt_countShortLinksByOwner: D1PreparedStatement | null = null;
+    let stmt_consumeClick: D1PreparedStatement | null = null;
     let stmt_updateShortLinkLastAccessed: D1PreparedStatement | null = null;
     let stmt_cleanUnusedLinks: D1PreparedStatement | null = null;
+    let stmt_cleanExpiredLinks: D1PreparedStatement | null = null;
+    let stmt_restoreShortLink: D1PreparedStatement | null = null;
+    let stmt_purgeArchivedLinks: D1PreparedStatement | null = null;
+    let stmt_getShortIdLength: D1PreparedStatement | null = null;
+    let stmt_increaseShortIdLength: D1PreparedStatement | null = null;
+    let stmt_countShortIdsOfLength: D1PreparedStatement | null = null;
+    let stmt_getSetting: D1PreparedStatement | null = null;
+    let stmt_setSetting: D1PreparedStatement | null = null;
+    let stmt_recordVisit: D1PreparedStatement | null = null;
+    let stmt_getTotalClicks: D1PreparedStatement | null = null;
+    let stmt_getClicksPerDay: D1PreparedStatement | null = null;
+    let stmt_getTopReferrers: D1PreparedStatement | null = null;
 
-    return {
-        async setupTables() {
-            await db.prepare(`
-CREATE TABLE IF NOT EXISTS sl_links_map (
-    short_id VARCHAR(255) NOT NULL PRIMARY KEY,
-    target_url VARCHAR(65535) NOT NULL,
-    last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
-);
+    /**
+     * Bind a link to the insert statement returning the short ID only if it was not taken yet
+     */
+    async function bindInsertShortLink({ shortId, targetUrl, attributes }: INewShortLink): Promise<D1PreparedStatement> {
+        if (!stmt_createShortLinkMapIfNotExists) {
+            // The primary key decides which of concurrent inserts gets the short ID, no error is thrown for the others
+            stmt_createShortLinkMapIfNotExists = db.prepare(`
+INSERT INTO ${linksTable} (short_id, target_url, target_host, target_hash, expires_at, password_hash, remaining_clicks, owner_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+ON CONFLICT (short_id) DO NOTHING
+RETURNING short_id
+`);
+        }
 
-CREATE INDEX IF NOT EXISTS idx_sl_links_map_last_accessed_at ON sl_links_map(last_accessed_at);
+        const expiresAt = attributes?.expiresAt ? formatDbDateTime(attributes.expiresAt) : null;
+        const targetHash = await hashTargetUrl(targetUrl);
 
-PRAGMA optimize;
+        return stmt_createShortLinkMapIfNotExists.bind(shortId, targetUrl, getUrlHost(targetUrl), targetHash, expiresAt, attributes?.passwordHash ?? null, attributes?.maxClicks ?? null, attributes?.ownerId ?? null);
+    }
+
+    const backend: IShortLinksManagerD1Backend = {
+        cacheKeyPrefix: tablePrefix,
+
+        async setupTables(): Promise<IMigration[]> {
+            await db.prepare(`
+CREATE TABLE IF NOT EXISTS ${schemaVersionTable} (
+    version INTEGER NOT NULL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+)
 `).run();
+
+            const applied: IMigration[] = [];
+
+            for (const migration of await getPendingMigrations()) {
+                try {
+                    // Batches run in a transaction, the version is only recorded if all statements succeed
+                    await db.batch([
+                        ...migration.statements.map(statement => db.prepare(statement)),
+                        db.prepare(`INSERT INTO ${schemaVersionTable} (version, name) VALUES (?, ?)`).bind(migration.version, migration.name),
+                    ]);
+                }
+                catch (err) {
+                    // Another instance may have applied it at the same time
+                    if (await getSchemaVersion() >= migration.version) {
+                        continue;
+                    }
+                    throw err;
+                }
+
+                applied.push(migration);
+            }
+
+            // Also run when a previous backfill was interrupted
+            await backfillTargetHostAndHash();
+
+            if (applied.length > 0) {
+                await db.prepare("PRAGMA optimize").run();
+            }
+
+            return applied;
         },
 
+        getSchemaVersion,
+        getPendingMigrations,
+
         async getTargetUrl(shortId: string): Promise<string | null> {
             if (!stmt_getLink) {
-                stmt_getLink = db.prepare("SELECT target_url FROM sl_links_map WHERE short_id = ? LIMIT 1");
+                stmt_getLink = db.prepare(`SELECT target_url FROM ${linksTable} WHERE short_id = ? AND (expires_at IS NULL OR expires_at > ?) AND password_hash IS NULL AND (remaining_clicks IS NULL OR remaining_clicks > 0) AND archived_at IS NULL LIMIT 1`);
             }
 
-            const result = await stmt_getLink.bind(shortId).first<{ target_url: string }>();
+            const result = await stmt_getLink.bind(shortId, formatDbDateTime(new Date())).first<{ target_url: string }>();
             return result?.target_url ?? null;
         },
 
-        async createShortLink(shortId: string, targetUrl: string): Promise<void> {
-            if (!stmt_createShortLinkMap) {
-                stmt_createShortLinkMap = db.prepare("INSERT INTO sl_links_map (short_id, target_url) VALUES (?, ?)");
+        async getShortLink(shortId: string): Promise<IShortLink | null> {
+            if (!stmt_getShortLink) {
+                stmt_getShortLink = db.prepare(`SELECT ${SHORT_LINK_COLUMNS} FROM ${linksTable} WHERE short_id = ? AND archived_at IS NULL LIMIT 1`);
+            }
+
+            const result = await stmt_getShortLink.bind(shortId).first<IShortLinkRow>();
+            return result ? toShortLink(result) : null;
+        },
+
+        async createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): Promise<void> {
+            const inserted = await (await bindInsertShortLink({ shortId, targetUrl, attributes })).first<{ short_id: string }>();
+            if (!inserted) {
+                throw new ShortIdConflictError(shortId);
+            }
+        },
+
+        async createShortLinks(links: INewShortLink[]): Promise<string[]> {
+            if (links.length === 0) {
+                return [];
             }
 
-            await stmt_createShortLinkMap.bind(shortId, targetUrl).run();
+            const statements = await Promise.all(links.map(bindInsertShortLink));
+
+            // Conflicting short IDs are skipped so the rest of the batch is still inserted
+            const results = await db.batch<{ short_id: string }>(statements);
+
+            return results.flatMap(result => result.results.map(r => r.short_id));
         },
 
         async checkShortIdsExist(shortIds: string[]): Promise<string[]> {
+            let stmt_getShortIdsExist = stmts_getShortIdsExist.get(shortIds.length);
             if (!stmt_getShortIdsExist) {
                 const placeholders = Array.from("?".repeat(shortIds.length)).join(",");
-                stmt_getShortIdsExist = db.prepare(`SELECT short_id FROM sl_links_map WHERE short_id IN (${placeholders})`);
+                stmt_getShortIdsExist = db.prepare(`SELECT short_id FROM ${linksTable} WHERE short_id IN (${placeholders})`);
+                stmts_getShortIdsExist.set(shortIds.length, stmt_getShortIdsExist);
             }
 
             const result = await stmt_getShortIdsExist.bind(...shortIds).all<{ short_id: string }>();
@@ -60,9 +350,75 @@ PRAGMA optimize;
             return result.results.map(r => r.short_id);
         },
 
+        async findShortIdByTargetUrl(targetUrl: string): Promise<string | null> {
+            if (!stmt_findShortIdByTargetHash) {
+                stmt_findShortIdByTargetHash = db.prepare(`SELECT short_id FROM ${linksTable} WHERE target_hash = ? AND expires_at IS NULL AND password_hash IS NULL AND remaining_clicks IS NULL AND archived_at IS NULL AND owner_id IS NULL LIMIT 1`);
+            }
+
+            const result = await stmt_findShortIdByTargetHash.bind(await hashTargetUrl(targetUrl)).first<{ short_id: string }>();
+            return result?.short_id ?? null;
+        },
+
+        async updateTargetUrl(shortId: string, targetUrl: string): Promise<boolean> {
+            if (!stmt_updateTargetUrl) {
+                stmt_updateTargetUrl = db.prepare(`UPDATE ${linksTable} SET target_url = ?, target_host = ?, target_hash = ? WHERE short_id = ? AND archived_at IS NULL`);
+            }
+
+            const targetHash = await hashTargetUrl(targetUrl);
+            const result = await stmt_updateTargetUrl.bind(targetUrl, getUrlHost(targetUrl), targetHash, shortId).run();
+            return result.meta.changes > 0;
+        },
+
+        async updateOwnedTargetUrl(ownerId: string, shortId: string, targetUrl: string): Promise<boolean> {
+            if (!stmt_updateOwnedTargetUrl) {
+                stmt_updateOwnedTargetUrl = db.prepare(`UPDATE ${linksTable} SET target_url = ?, target_host = ?, target_hash = ? WHERE short_id = ? AND owner_id = ? AND archived_at IS NULL`);
+            }
+
+            const targetHash = await hashTargetUrl(targetUrl);
+            const result = await stmt_updateOwnedTargetUrl.bind(targetUrl, getUrlHost(targetUrl), targetHash, shortId, ownerId).run();
+            return result.meta.changes > 0;
+        },
+
+        async deleteShortLink(shortId: string): Promise<boolean> {
+            if (!stmt_deleteShortLink) {
+                stmt_deleteShortLink = db.prepare(`DELETE FROM ${linksTable} WHERE short_id = ?`);
+            }
+
+            const result = await stmt_deleteShortLink.bind(shortId).run();
+            return result.meta.changes > 0;
+        },
+
+        async deleteOwnedShortLink(ownerId: string, shortId: string): Promise<boolean> {
+            if (!stmt_deleteOwnedShortLink) {
+                stmt_deleteOwnedShortLink = db.prepare(`DELETE FROM ${linksTable} WHERE short_id = ? AND owner_id = ?`);
+            }
+
+            const result = await stmt_deleteOwnedShortLink.bind(shortId, ownerId).run();
+            return result.meta.changes > 0;
+        },
+
+        async countShortLinksByOwner(ownerId: string): Promise<number> {
+            if (!stmt_countShortLinksByOwner) {
+                stmt_countShortLinksByOwner = db.prepare(`SELECT COUNT(*) AS count FROM ${linksTable} WHERE owner_id = ? AND archived_at IS NULL`);
+            }
+
+            const result = await stmt_countShortLinksByOwner.bind(ownerId).first<{ count: number }>();
+            return result?.count ?? 0;
+        },
+
+        async consumeClick(shortId: string): Promise<boolean> {
+            if (!stmt_consumeClick) {
+                // Single statement so concurrent visits cannot both use the last click
+                stmt_consumeClick = db.prepare(`UPDATE ${linksTable} SET remaining_clicks = remaining_clicks - 1 WHERE short_id = ? AND remaining_clicks > 0 AND archived_at IS NULL RETURNING remaining_clicks`);
+            }
+
+            const result = await stmt_consumeClick.bind(shortId).first<{ remaining_clicks: number }>();
+            return result !== null;
+        },
+
         async updateShortLinkLastAccessTime(shortId: string, time: number | Date = new Date()): Promise<void> {
             if (!stmt_updateShortLinkLastAccessed) {
-                stmt_updateShortLinkLastAccessed = db.prepare("UPDATE sl_links_map SET last_accessed_at = ? WHERE short_id = ?");
+                stmt_updateShortLinkLastAccessed = db.prepare(`UPDATE ${linksTable} SET last_accessed_at = ? WHERE short_id = ?`);
             }
 
             let _time = time;
@@ -73,14 +429,254 @@ PRAGMA optimize;
             await stmt_updateShortLinkLastAccessed.bind(formatDbDateTime(_time), shortId).run();
         },
 
-        async cleanUnusedLinks(maxAge: number): Promise<string[]> {
+        async cleanUnusedLinks(maxAge: number, limit?: number): Promise<string[]> {
             if (!stmt_cleanUnusedLinks) {
-                stmt_cleanUnusedLinks = db.prepare("DELETE FROM sl_links_map WHERE last_accessed_at < datetime(CURRENT_TIMESTAMP, ?) RETURNING short_id");
+                // DELETE ... LIMIT is not supported, a negative limit means no limit in SQLite
+                stmt_cleanUnusedLinks = db.prepare(`
+${removeLinksSql} WHERE short_id IN (
+    SELECT short_id FROM ${linksTable} WHERE last_accessed_at < datetime(CURRENT_TIMESTAMP, ?) AND archived_at IS NULL LIMIT ?
+)
+RETURNING short_id
+`);
+            }
+
+            const result = await stmt_cleanUnusedLinks.bind(`-${maxAge} days`, limit ?? -1).all<{ short_id: string }>();
+
+            return result.results.map(r => r.short_id);
+        },
+
+        async cleanExpiredLinks(limit?: number): Promise<string[]> {
+            if (!stmt_cleanExpiredLinks) {
+                stmt_cleanExpiredLinks = db.prepare(`
+${removeLinksSql} WHERE short_id IN (
+    SELECT short_id FROM ${linksTable} WHERE expires_at <= ? AND archived_at IS NULL LIMIT ?
+)
+RETURNING short_id
+`);
+            }
+
+            const result = await stmt_cleanExpiredLinks.bind(formatDbDateTime(new Date()), limit ?? -1).all<{ short_id: string }>();
+
+            return result.results.map(r => r.short_id);
+        },
+
+        async restoreShortLink(shortId: string): Promise<boolean> {
+            if (!stmt_restoreShortLink) {
+                // Mark as accessed so the link is not swept again by the next cleanup
+                stmt_restoreShortLink = db.prepare(`UPDATE ${linksTable} SET archived_at = NULL, last_accessed_at = ? WHERE short_id = ? AND archived_at IS NOT NULL`);
+            }
+
+            const result = await stmt_restoreShortLink.bind(formatDbDateTime(new Date()), shortId).run();
+            return result.meta.changes > 0;
+        },
+
+        async purgeArchivedLinks(limit?: number): Promise<string[]> {
+            if (!stmt_purgeArchivedLinks) {
+                stmt_purgeArchivedLinks = db.prepare(`
+DELETE FROM ${linksTable} WHERE short_id IN (
+    SELECT short_id FROM ${linksTable} WHERE archived_at <= datetime(CURRENT_TIMESTAMP, ?) LIMIT ?
+)
+RETURNING short_id
+`);
             }
 
-            const result = await stmt_cleanUnusedLinks.bind(`-${maxAge} days`).all<{ short_id: string }>();
+            const result = await stmt_purgeArchivedLinks.bind(`-${quarantineDays} days`, limit ?? -1).all<{ short_id: string }>();
 
             return result.results.map(r => r.short_id);
         },
+
+        async listShortLinks(options: IListShortLinksOptions = {}): Promise<IShortLinksPage> {
+            const {
+                sortBy = "createdAt",
+                order = "desc",
+            } = options;
+
+            // SQLite reads a negative LIMIT as no limit
+            if (options.limit !== undefined && !(Number.isInteger(options.limit) && options.limit > 0)) {
+                throw new ValidationError("limit must be a positive integer");
+            }
+
+            const limit = Math.min(options.limit ?? 50, MAX_LIST_LIMIT);
+
+            const sortColumn = SORT_COLUMNS[sortBy];
+            const direction = order === "asc" ? "ASC" : "DESC";
+
+            const conditions: string[] = [options.archived ? "archived_at IS NOT NULL" : "archived_at IS NULL"];
+            const params: unknown[] = [];
+
+            if (options.cursor) {
+                const [sortValue, shortId] = decodeCursor(options.cursor);
+                conditions.push(`(${sortColumn}, short_id) ${order === "asc" ? ">" : "<"} (?, ?)`);
+                params.push(sortValue, shortId);
+            }
+
+            if (options.targetUrlContains) {
+                conditions.push("target_url LIKE ? ESCAPE '\\'");
+                params.push(`%${escapeLikePattern(options.targetUrlContains)}%`);
+            }
+
+            if (options.ownerId !== undefined) {
+                conditions.push("owner_id = ?");
+                params.push(options.ownerId);
+            }
+
+            if (options.domain) {
+                // Subdomains match too, like the allowed and denied domains of the target URL validation
+                const domain = options.domain.toLowerCase();
+                conditions.push("(target_host = ? OR target_host LIKE ? ESCAPE '\\')");
+                params.push(domain, `%.${escapeLikePattern(domain)}`);
+            }
+
+            const dateRanges = [
+                ["created_at >= ?", options.createdAfter],
+                ["created_at <= ?", options.createdBefore],
+                ["last_accessed_at >= ?", options.accessedAfter],
+                ["last_accessed_at <= ?", options.accessedBefore],
+            ] as const;
+
+            for (const [condition, date] of dateRanges) {
+                if (date) {
+                    conditions.push(condition);
+                    params.push(formatDbDateTime(date));
+                }
+            }
+
+            const where = `WHERE ${conditions.join(" AND ")}`;
+
+            // Query one extra row to know if there is a next page
+            const result = await db.prepare(`
+SELECT ${SHORT_LINK_COLUMNS}, ${sortColumn} AS sort_value
+FROM ${linksTable}
+${where}
+ORDER BY ${sortColumn} ${direction}, short_id ${direction}
+LIMIT ?
+`).bind(...params, limit + 1).all<IShortLinkRow & { sort_value: string }>();
+
+            const rows = result.results.slice(0, limit);
+            const lastRow = rows[rows.length - 1];
+
+            return {
+                links: rows.map(toShortLink),
+                nextCursor: result.results.length > limit && lastRow
+                    ? encodeCursor([lastRow.sort_value, lastRow.short_id])
+                    : null,
+            };
+        },
+
+        async getShortIdLength(): Promise<number | null> {
+            if (!stmt_getShortIdLength) {
+                stmt_getShortIdLength = db.prepare(`SELECT CAST(value AS INTEGER) AS value FROM ${settingsTable} WHERE key = 'short_id_length'`);
+            }
+
+            const result = await stmt_getShortIdLength.first<{ value: number }>();
+            return result?.value ?? null;
+        },
+
+        async increaseShortIdLength(fromLength: number): Promise<number> {
+            if (!stmt_increaseShortIdLength) {
+                // Single statement so instances growing the same length at the same time only grow it once
+                stmt_increaseShortIdLength = db.prepare(`
+INSERT INTO ${settingsTable} (key, value) VALUES ('short_id_length', ?)
+ON CONFLICT (key) DO UPDATE SET value = MAX(CAST(value AS INTEGER), CAST(excluded.value AS INTEGER))
+RETURNING CAST(value AS INTEGER) AS value
+`);
+            }
+
+            const result = await stmt_increaseShortIdLength.bind(fromLength + 1).first<{ value: number }>();
+            return result?.value ?? fromLength + 1;
+        },
+
+        async countShortIdsOfLength(length: number): Promise<number> {
+            if (!stmt_getSetting) {
+                stmt_getSetting = db.prepare(`SELECT value FROM ${settingsTable} WHERE key = ?`);
+            }
+
+            // Managers are created per request, the count is stored so the table is only scanned once in a while
+            const key = `short_id_count_${length}`;
+            const stored = await stmt_getSetting.bind(key).first<string>("value");
+            if (stored) {
+                const { count, countedAt } = JSON.parse(stored) as { count: number; countedAt: number };
+                if (Date.now() - countedAt < shortIdCountMaxAge * 1000) {
+                    return count;
+                }
+            }
+
+            if (!stmt_countShortIdsOfLength) {
+                // Scans the whole table, archived links count as their IDs are still taken
+                stmt_countShortIdsOfLength = db.prepare(`SELECT COUNT(*) AS count FROM ${linksTable} WHERE length(short_id) = ?`);
+            }
+
+            const result = await stmt_countShortIdsOfLength.bind(length).first<{ count: number }>();
+            const count = result?.count ?? 0;
+
+            if (!stmt_setSetting) {
+                stmt_setSetting = db.prepare(`INSERT INTO ${settingsTable} (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value`);
+            }
+
+            await stmt_setSetting.bind(key, JSON.stringify({ count, countedAt: Date.now() })).run();
+            return count;
+        },
+
+        async recordVisit(event: IVisitEvent): Promise<void> {
+            if (!stmt_recordVisit) {
+                stmt_recordVisit = db.prepare(`INSERT INTO ${visitsTable} (short_id, visited_at, referrer, user_agent, country, metadata) VALUES (?, ?, ?, ?, ?, ?)`);
+            }
+
+            await stmt_recordVisit.bind(
+                event.shortId,
+                formatDbDateTime(event.timestamp),
+                event.referrer ?? null,
+                event.userAgent ?? null,
+                event.country ?? null,
+                event.metadata ? JSON.stringify(event.metadata) : null,
+            ).run();
+        },
+
+        async getTotalClicks(shortId: string): Promise<number> {
+            if (!stmt_getTotalClicks) {
+                stmt_getTotalClicks = db.prepare(`SELECT COUNT(*) AS clicks FROM ${visitsTable} WHERE short_id = ?`);
+            }
+
+            const result = await stmt_getTotalClicks.bind(shortId).first<{ clicks: number }>();
+            return result?.clicks ?? 0;
+        },
+
+        async getClicksPerDay(shortId: string, days = 30): Promise<IDailyClicks[]> {
+            if (!stmt_getClicksPerDay) {
+                stmt_getClicksPerDay = db.prepare(`
+SELECT date(visited_at) AS date, COUNT(*) AS clicks
+FROM ${visitsTable}
+WHERE short_id = ? AND visited_at >= ?
+GROUP BY date(visited_at)
+ORDER BY date(visited_at)
+`);
+            }
+
+            const since = new Date();
+            since.setHours(0, 0, 0, 0);
+            since.setDate(since.getDate() - days + 1);
+
+            const result = await stmt_getClicksPerDay.bind(shortId, formatDbDateTime(since)).all<IDailyClicks>();
+            return result.results;
+        },
+
+        async getTopReferrers(shortId: string, limit = 10): Promise<IReferrerClicks[]> {
+            if (!stmt_getTopReferrers) {
+                stmt_getTopReferrers = db.prepare(`
+SELECT referrer, COUNT(*) AS clicks
+FROM ${visitsTable}
+WHERE short_id = ?
+GROUP BY referrer
+ORDER BY clicks DESC
+LIMIT ?
+`);
+            }
+
+            const result = await stmt_getTopReferrers.bind(shortId, limit).all<IReferrerClicks>();
+            return result.results;
+        },
     };
+
+    // Raw D1 errors are wrapped so callers can rely on the error codes, the D1 error is kept as the cause
+    return wrapErrors(backend, cause => new BackendUnavailableError({ cause }));
 }
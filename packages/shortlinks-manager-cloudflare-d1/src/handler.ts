@@ -0,0 +1,263 @@
+import {
+    BackendUnavailableError,
+    createManager,
+    type ICleanupOptions,
+    type ICleanupResult,
+    type ICreateShortLinkOptions,
+    InvalidShortIdError,
+    InvalidTargetUrlError,
+    RateLimitExceededError,
+    ShortIdConflictError,
+    ValidationError,
+} from "@potonz/shortlinks-manager";
+
+type ManagerProps = Parameters<typeof createManager>[0];
+
+export interface IRequestHandlerOptions<Env> {
+    /**
+     * Props passed to `createManager` for every request.
+     * `waitUntil` is always taken from the execution context of the request
+     * @param env
+     */
+    getManagerProps: (env: Env) => Omit<ManagerProps, "waitUntil"> | Promise<Omit<ManagerProps, "waitUntil">>;
+    /**
+     * Check the caller of the admin routes under `/api/`, e.g. compare a bearer token with a secret.
+     * Unauthorised requests get a 401 response
+     * @param request
+     * @param env
+     */
+    authorize: (request: Request, env: Env) => boolean | Promise<boolean>;
+    /**
+     * Identity of the caller creating links, used as {@link ICreateShortLinkOptions#callerId} for rate limiting.
+     * Defaults to the client IP address from the `CF-Connecting-IP` header
+     * @param request
+     * @param env
+     */
+    getCallerId?: (request: Request, env: Env) => string | undefined | Promise<string | undefined>;
+    /**
+     * Status of redirect responses. Defaults to `302` so browsers do not cache redirects
+     * of links that may be updated or deleted
+     */
+    redirectStatus?: 301 | 302 | 307 | 308;
+    /**
+     * Response for short IDs that do not resolve. Defaults to an empty 404 response
+     * @param request
+     * @param env
+     */
+    notFound?: (request: Request, env: Env) => Response | Promise<Response>;
+    /**
+     * What the `scheduled` handler removes on each Cron Trigger. Defaults to expired links only
+     */
+    cleanup?: ICleanupOptions;
+    /**
+     * Called after each scheduled cleanup with the number of removed links, e.g. to log them
+     * @param result
+     * @param env
+     */
+    onCleanup?: (result: ICleanupResult, env: Env) => unknown;
+}
+
+export interface IRequestHandler<Env> {
+    fetch: (request: Request, env: Env, ctx: ExecutionContext) => Promise<Response>;
+    scheduled: (controller: ScheduledController, env: Env, ctx: ExecutionContext) => Promise<void>;
+}
+
+interface ICreateLinkBody extends ICreateShortLinkOptions {
+    targetUrl: string;
+}
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function parseCreateLinkBody(body: unknown): ICreateLinkBody | null {
+    if (typeof body !== "object" || body === null) {
+        return null;
+    }
+
+    const { targetUrl, shortId, expiresAt, ttl, password, maxClicks } = body as Record<string, unknown>;
+
+    const isValid = typeof targetUrl === "string"
+        && (shortId === undefined || typeof shortId === "string")
+        && (expiresAt === undefined || typeof expiresAt === "string" || typeof expiresAt === "number")
+        && (ttl === undefined || typeof ttl === "number")
+        && (password === undefined || typeof password === "string")
+        && (maxClicks === undefined || typeof maxClicks === "number");
+
+    if (!isValid) {
+        return null;
+    }
+
+    const expiresAtDate = expiresAt !== undefined ? new Date(expiresAt) : undefined;
+    if (expiresAtDate && Number.isNaN(expiresAtDate.getTime())) {
+        return null;
+    }
+
+    return {
+        targetUrl,
+        shortId,
+        expiresAt: expiresAtDate,
+        ttl,
+        password,
+        maxClicks,
+    };
+}
+
+/**
+ * Create a Worker `fetch` handler serving the short links.
+ *
+ * - `GET /:shortId` redirects to the target URL, other methods respond `405` without resolving the link
+ * - `POST /api/links` creates a short link from a JSON body with `targetUrl` and {@link ICreateShortLinkOptions},
+ *   responding with the `shortId` and `shortUrl`. The `api` short ID and passwords are rejected as they could not be resolved
+ *
+ * Backend failures respond `503` with the `BACKEND_UNAVAILABLE` code.
+ * The `scheduled` handler cleans up links in bounded batches when used with Cron Triggers.
+ *
+ * @param options
+ */
+export function createRequestHandler<Env>(options: IRequestHandlerOptions<Env>): IRequestHandler<Env> {
+    const {
+        getManagerProps,
+        authorize,
+        getCallerId = request => request.headers.get("CF-Connecting-IP") ?? undefined,
+        redirectStatus = 302,
+        notFound = () => new Response(null, { status: 404 }),
+        cleanup,
+        onCleanup,
+    } = options;
+
+    async function getManager(env: Env, ctx: ExecutionContext) {
+        return await createManager({
+            ...await getManagerProps(env),
+            waitUntil: promise => ctx.waitUntil(promise),
+        });
+    }
+
+    async function handleRedirect(shortId: string, request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        const manager = await getManager(env, ctx);
+        const targetUrl = await manager.getTargetUrl(shortId, {
+            referrer: request.headers.get("Referer"),
+            userAgent: request.headers.get("User-Agent"),
+            country: (request.cf?.country as string | undefined) ?? null,
+        });
+
+        if (!targetUrl) {
+            return await notFound(request, env);
+        }
+
+        return new Response(null, {
+            status: redirectStatus,
+            headers: { Location: targetUrl },
+        });
+    }
+
+    async function handleCreateLink(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        let body: ICreateLinkBody | null;
+        try {
+            body = parseCreateLinkBody(await request.json());
+        }
+        catch {
+            body = null;
+        }
+
+        if (!body) {
+            return json({ error: "Invalid request body", code: "INVALID_BODY" }, 400);
+        }
+
+        // No route resolves protected links with their password, they would never redirect
+        if (body.password !== undefined) {
+            return json({ error: "Password protected links are not supported by the handler", code: "UNSUPPORTED_FEATURE" }, 400);
+        }
+
+        const { targetUrl, ...createOptions } = body;
+        const manager = await getManager(env, ctx);
+
+        try {
+            // Requests to `/api` go to the admin routes, a link with this short ID could never be reached
+            if (createOptions.shortId?.toLowerCase() === "api") {
+                throw new InvalidShortIdError(createOptions.shortId, "reserved", `Short ID "${createOptions.shortId}" is reserved`);
+            }
+
+            const shortId = await manager.createShortLink(targetUrl, { ...createOptions, callerId: await getCallerId(request, env) });
+            return json({ shortId, shortUrl: new URL(`/${shortId}`, request.url).href }, 201);
+        }
+        catch (err) {
+            if (err instanceof InvalidTargetUrlError || err instanceof InvalidShortIdError) {
+                return json({ error: err.message, code: err.code, reason: err.reason }, 400);
+            }
+
+            if (err instanceof ValidationError) {
+                return json({ error: err.message, code: err.code }, 400);
+            }
+
+            if (err instanceof ShortIdConflictError) {
+                return json({ error: err.message, code: err.code }, 409);
+            }
+
+            if (err instanceof RateLimitExceededError) {
+                const response = json({ error: err.message, code: err.code, retryAfter: err.retryAfter }, 429);
+                response.headers.set("Retry-After", String(err.retryAfter));
+                return response;
+            }
+
+            throw err;
+        }
+    }
+
+    async function route(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+        const { pathname } = new URL(request.url);
+
+        if (pathname === "/api" || pathname.startsWith("/api/")) {
+            if (!(await authorize(request, env))) {
+                return json({ error: "Unauthorised", code: "UNAUTHORISED" }, 401);
+            }
+
+            if (pathname === "/api/links") {
+                if (request.method !== "POST") {
+                    return json({ error: "Method not allowed", code: "METHOD_NOT_ALLOWED" }, 405);
+                }
+
+                return await handleCreateLink(request, env, ctx);
+            }
+
+            return json({ error: "Not found", code: "NOT_FOUND" }, 404);
+        }
+
+        const shortId = pathname.slice(1);
+        if (!shortId || shortId.includes("/")) {
+            return await notFound(request, env);
+        }
+
+        if (request.method !== "GET") {
+            // Resolving uses up clicks and records visits, so link previews sending HEAD must not resolve
+            return new Response(null, { status: 405, headers: { Allow: "GET" } });
+        }
+
+        return await handleRedirect(shortId, request, env, ctx);
+    }
+
+    return {
+        async fetch(request, env, ctx) {
+            try {
+                return await route(request, env, ctx);
+            }
+            catch (err) {
+                if (err instanceof BackendUnavailableError) {
+                    return json({ error: "Service unavailable", code: err.code }, 503);
+                }
+
+                throw err;
+            }
+        },
+
+        async scheduled(_controller, env, ctx) {
+            const manager = await getManager(env, ctx);
+            const result = await manager.runCleanup(cleanup);
+
+            await onCleanup?.(result, env);
+        },
+    };
+}
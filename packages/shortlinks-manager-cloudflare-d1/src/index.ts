@@ -1,4 +1,8 @@
 import "./worker-configuration.d.ts";
 export * from "./backend";
+export * from "./handler";
+export * from "./kvCache";
+export * from "./migrations";
+export * from "./rateLimiter";
 
 export default {};
@@ -0,0 +1,68 @@
+import { CACHED_MISS, type ICache } from "@potonz/shortlinks-manager";
+
+// Target URLs are never empty
+const MISS_VALUE = "";
+
+export interface IKVCacheOptions {
+    /**
+     * Number of seconds before KV drops an entry, at least 60. Defaults to never
+     */
+    expirationTtl?: number;
+    /**
+     * Prepended to short IDs to build the KV keys, e.g. `sl:`. Defaults to none
+     */
+    keyPrefix?: string;
+    /**
+     * Number of seconds a miss recorded with {@link IKVCache#setMiss} is kept, at least 60.
+     * KV entries cannot expire sooner, so the TTL requested by the manager is ignored.
+     * Misses are not cached if not set
+     */
+    negativeTtl?: number;
+}
+
+export interface IKVCache extends ICache {
+    get: (shortId: string) => Promise<string | typeof CACHED_MISS | null>;
+    set: (shortId: string, targetUrl: string) => Promise<void>;
+    delete: (shortId: string) => Promise<void>;
+    /**
+     * Remember that the short ID does not exist for {@link IKVCacheOptions#negativeTtl} seconds.
+     * Does nothing if negative caching is not enabled
+     * @param shortId
+     */
+    setMiss: (shortId: string) => Promise<void>;
+}
+
+/**
+ * Create an {@link ICache} storing target URLs in a Cloudflare KV namespace
+ * @param namespace KV namespace binding, e.g. `env.SHORT_LINKS`
+ * @param options
+ */
+export function createKVCache(namespace: KVNamespace, options: IKVCacheOptions = {}): IKVCache {
+    const { expirationTtl, keyPrefix = "", negativeTtl } = options;
+
+    return {
+        // Caches are usually created for every request, their failures are tracked by namespace
+        identity: namespace,
+
+        async get(shortId: string): Promise<string | typeof CACHED_MISS | null> {
+            const value = await namespace.get(keyPrefix + shortId);
+            return value === MISS_VALUE ? CACHED_MISS : value;
+        },
+
+        async set(shortId: string, targetUrl: string): Promise<void> {
+            await namespace.put(keyPrefix + shortId, targetUrl, expirationTtl !== undefined ? { expirationTtl } : undefined);
+        },
+
+        async delete(shortId: string): Promise<void> {
+            await namespace.delete(keyPrefix + shortId);
+        },
+
+        async setMiss(shortId: string): Promise<void> {
+            if (negativeTtl === undefined) {
+                return;
+            }
+
+            await namespace.put(keyPrefix + shortId, MISS_VALUE, { expirationTtl: negativeTtl });
+        },
+    };
+}
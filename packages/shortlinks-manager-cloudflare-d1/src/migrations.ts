@@ -0,0 +1,136 @@
+export interface IMigration {
+    /**
+     * Migrations are applied in ascending order of version
+     */
+    version: number;
+    name: string;
+    /**
+     * SQL statements applied in a single batch
+     */
+    statements: string[];
+}
+
+export const DEFAULT_TABLE_PREFIX = "sl_";
+
+interface IMigrationDefinition {
+    version: number;
+    name: string;
+    statements: (prefix: string) => string[];
+}
+
+/**
+ * All schema changes of the D1 backend.
+ * Never edit an existing migration, append a new one with the next version instead
+ */
+const MIGRATIONS: IMigrationDefinition[] = [
+    {
+        version: 1,
+        name: "create_links_map",
+        statements: prefix => [
+            `CREATE TABLE IF NOT EXISTS ${prefix}links_map (
+    short_id VARCHAR(255) NOT NULL PRIMARY KEY,
+    target_url VARCHAR(65535) NOT NULL,
+    last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+)`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_last_accessed_at ON ${prefix}links_map(last_accessed_at)`,
+        ],
+    },
+    {
+        version: 2,
+        name: "add_link_expiry",
+        statements: prefix => [
+            `ALTER TABLE ${prefix}links_map ADD COLUMN expires_at DATETIME DEFAULT NULL`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_expires_at ON ${prefix}links_map(expires_at)`,
+        ],
+    },
+    {
+        version: 3,
+        name: "create_link_visits",
+        statements: prefix => [
+            `CREATE TABLE IF NOT EXISTS ${prefix}link_visits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    short_id VARCHAR(255) NOT NULL,
+    visited_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    referrer VARCHAR(65535),
+    user_agent VARCHAR(65535),
+    country VARCHAR(2),
+    metadata TEXT
+)`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}link_visits_short_id_visited_at ON ${prefix}link_visits(short_id, visited_at)`,
+        ],
+    },
+    {
+        // The host and hash of links created before this migration are filled in by setupTables
+        version: 4,
+        name: "add_target_host_and_hash",
+        statements: prefix => [
+            `ALTER TABLE ${prefix}links_map ADD COLUMN target_host VARCHAR(255) DEFAULT NULL`,
+            `ALTER TABLE ${prefix}links_map ADD COLUMN target_hash CHAR(64) DEFAULT NULL`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_created_at ON ${prefix}links_map(created_at)`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_target_host ON ${prefix}links_map(target_host)`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_target_hash ON ${prefix}links_map(target_hash)`,
+        ],
+    },
+    {
+        version: 5,
+        name: "add_password_hash",
+        statements: prefix => [
+            `ALTER TABLE ${prefix}links_map ADD COLUMN password_hash VARCHAR(255) DEFAULT NULL`,
+        ],
+    },
+    {
+        version: 6,
+        name: "add_remaining_clicks",
+        statements: prefix => [
+            `ALTER TABLE ${prefix}links_map ADD COLUMN remaining_clicks INTEGER DEFAULT NULL`,
+        ],
+    },
+    {
+        version: 7,
+        name: "add_archived_at",
+        statements: prefix => [
+            `ALTER TABLE ${prefix}links_map ADD COLUMN archived_at DATETIME DEFAULT NULL`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_archived_at ON ${prefix}links_map(archived_at)`,
+        ],
+    },
+    {
+        version: 8,
+        name: "add_owner_id",
+        statements: prefix => [
+            `ALTER TABLE ${prefix}links_map ADD COLUMN owner_id VARCHAR(255) DEFAULT NULL`,
+            `CREATE INDEX IF NOT EXISTS idx_${prefix}links_map_owner_id_created_at ON ${prefix}links_map(owner_id, created_at)`,
+        ],
+    },
+    {
+        version: 9,
+        name: "create_rate_limits",
+        statements: prefix => [
+            `CREATE TABLE IF NOT EXISTS ${prefix}rate_limits (
+    name VARCHAR(255) NOT NULL,
+    key VARCHAR(255) NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (name, key)
+)`,
+        ],
+    },
+    {
+        version: 10,
+        name: "create_settings",
+        statements: prefix => [
+            `CREATE TABLE IF NOT EXISTS ${prefix}settings (
+    key VARCHAR(255) NOT NULL PRIMARY KEY,
+    value TEXT NOT NULL
+)`,
+        ],
+    },
+];
+
+/**
+ * Get the schema changes of the D1 backend for tables with the given prefix
+ * @param tablePrefix Defaults to `sl_`
+ */
+export function getMigrations(tablePrefix = DEFAULT_TABLE_PREFIX): IMigration[] {
+    return MIGRATIONS.map(({ version, name, statements }) => ({ version, name, statements: statements(tablePrefix) }));
+}
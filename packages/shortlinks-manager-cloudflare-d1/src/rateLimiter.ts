@@ -0,0 +1,84 @@
+import {
+    assertValidFixedWindowOptions,
+    BackendUnavailableError,
+    getFixedWindow,
+    type IFixedWindowOptions,
+    type IRateLimiter,
+    type IRateLimitResult,
+    wrapErrors,
+} from "@potonz/shortlinks-manager";
+
+import { DEFAULT_TABLE_PREFIX } from "./migrations";
+import { assertValidTablePrefix } from "./utils";
+
+export interface ID1RateLimiterOptions extends IFixedWindowOptions {
+    /**
+     * Keeps the counts of limiters sharing the table apart, e.g. `per_caller_hourly`
+     */
+    name: string;
+    /**
+     * Prefix of the tables created by `setupTables` of the D1 backend. Defaults to `sl_`
+     */
+    tablePrefix?: string;
+}
+
+export interface ID1RateLimiter extends IRateLimiter {
+    consume: (key: string, cost: number) => Promise<IRateLimitResult>;
+    /**
+     * Remove the counts of callers that have not created links in the current window
+     * @returns the number of removed counts
+     */
+    cleanExpiredWindows: () => Promise<number>;
+}
+
+/**
+ * Create a rate limiter counting links per caller in fixed windows, shared by all Workers through D1.
+ * The table is created by `setupTables` of the D1 backend
+ * @param db
+ * @param options
+ */
+export function createD1RateLimiter(db: D1Database, options: ID1RateLimiterOptions): ID1RateLimiter {
+    const { name, tablePrefix = DEFAULT_TABLE_PREFIX } = options;
+
+    assertValidTablePrefix(tablePrefix);
+    assertValidFixedWindowOptions(options);
+
+    const rateLimitsTable = `${tablePrefix}rate_limits`;
+
+    let stmt_consume: D1PreparedStatement | null = null;
+    let stmt_cleanExpiredWindows: D1PreparedStatement | null = null;
+
+    const limiter: ID1RateLimiter = {
+        async consume(key: string, cost: number): Promise<IRateLimitResult> {
+            if (!stmt_consume) {
+                // Single statement so concurrent calls cannot both read the same count,
+                // the count restarts when the stored window has ended
+                stmt_consume = db.prepare(`
+INSERT INTO ${rateLimitsTable} (name, key, window_start, count) VALUES (?, ?, ?, ?)
+ON CONFLICT (name, key) DO UPDATE SET
+    count = CASE WHEN window_start = excluded.window_start THEN count + excluded.count ELSE excluded.count END,
+    window_start = excluded.window_start
+RETURNING count
+`);
+            }
+
+            const { windowStart, toResult } = getFixedWindow(options, Date.now());
+            const result = await stmt_consume.bind(name, key, windowStart, cost).first<{ count: number }>();
+
+            return toResult(result?.count ?? cost);
+        },
+
+        async cleanExpiredWindows(): Promise<number> {
+            if (!stmt_cleanExpiredWindows) {
+                stmt_cleanExpiredWindows = db.prepare(`DELETE FROM ${rateLimitsTable} WHERE name = ? AND window_start < ?`);
+            }
+
+            const { windowStart } = getFixedWindow(options, Date.now());
+            const result = await stmt_cleanExpiredWindows.bind(name, windowStart).run();
+
+            return result.meta.changes;
+        },
+    };
+
+    return wrapErrors(limiter, cause => new BackendUnavailableError({ cause }));
+}
@@ -1,3 +1,5 @@
+import { ValidationError } from "@potonz/shortlinks-manager";
+
 export function formatDbDateTime(date: Date): string {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -8,3 +10,75 @@ export function formatDbDateTime(date: Date): string {
 
     return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
 }
+
+/**
+ * Parse a date time string stored by {@link formatDbDateTime}
+ */
+export function parseDbDateTime(value: string): Date {
+    const [date = "", time = ""] = value.split(" ");
+    const [year = 0, month = 1, day = 1] = date.split("-").map(Number);
+    const [hours = 0, minutes = 0, seconds = 0] = time.split(":").map(Number);
+
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * The prefix is part of the SQL, never allow anything that could break out of an identifier
+ * @throws ValidationError if the prefix is not a valid identifier
+ */
+export function assertValidTablePrefix(tablePrefix: string) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tablePrefix)) {
+        throw new ValidationError(`Invalid table prefix "${tablePrefix}"`);
+    }
+}
+
+/**
+ * Get the lowercased host of the URL, null if the URL cannot be parsed
+ */
+export function getUrlHost(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase() || null;
+    }
+    catch {
+        return null;
+    }
+}
+
+/**
+ * Escape `%`, `_` and `\` so the value can be used in a `LIKE ... ESCAPE '\'` pattern
+ */
+export function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * Encode a pagination cursor into an opaque string
+ */
+export function encodeCursor(values: [string, string]): string {
+    return btoa(encodeURIComponent(JSON.stringify(values)));
+}
+
+/**
+ * Decode a cursor created by {@link encodeCursor}
+ * @throws ValidationError if the cursor is invalid
+ */
+export function decodeCursor(cursor: string): [string, string] {
+    try {
+        const values = JSON.parse(decodeURIComponent(atob(cursor)));
+        if (Array.isArray(values) && values.length === 2 && values.every(v => typeof v === "string")) {
+            return values as [string, string];
+        }
+    }
+    catch {
+        // Handled below
+    }
+
+    throw new ValidationError("Invalid cursor");
+}
+
+/**
+ * Check if the error is thrown by D1 because a table does not exist
+ */
+export function isMissingTableError(err: unknown): boolean {
+    return err instanceof Error && /no such table/.test(err.message);
+}
@@ -0,0 +1,100 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, type IShortLinksManagerD1Backend } from "src";
+
+let mf: Miniflare;
+let backend: IShortLinksManagerD1Backend;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    const db = await mf.getD1Database("DB");
+    backend = createD1Backend(db);
+    await backend.init?.();
+    await backend.setupTables();
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("record visits and count total clicks", async () => {
+    const shortId = "total";
+
+    expect(await backend.getTotalClicks(shortId)).toBe(0);
+
+    await backend.recordVisit({ shortId, timestamp: new Date() });
+    await backend.recordVisit({
+        shortId,
+        timestamp: new Date(),
+        referrer: "https://google.com",
+        userAgent: "Mozilla/5.0",
+        country: "NZ",
+        metadata: { campaign: "summer" },
+    });
+    await backend.recordVisit({ shortId: "other", timestamp: new Date() });
+
+    expect(await backend.getTotalClicks(shortId)).toBe(2);
+});
+
+test("count clicks per day", async () => {
+    const shortId = "daily";
+    const today = new Date();
+    const yesterday = new Date(today);
+    yesterday.setDate(today.getDate() - 1);
+    const longAgo = new Date(today);
+    longAgo.setDate(today.getDate() - 60);
+
+    await backend.recordVisit({ shortId, timestamp: today });
+    await backend.recordVisit({ shortId, timestamp: today });
+    await backend.recordVisit({ shortId, timestamp: yesterday });
+    await backend.recordVisit({ shortId, timestamp: longAgo });
+
+    const toDateString = (date: Date) => [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, "0"),
+        String(date.getDate()).padStart(2, "0"),
+    ].join("-");
+
+    expect(await backend.getClicksPerDay(shortId)).toEqual([
+        { date: toDateString(yesterday), clicks: 1 },
+        { date: toDateString(today), clicks: 2 },
+    ]);
+    expect(await backend.getClicksPerDay(shortId, 1)).toEqual([
+        { date: toDateString(today), clicks: 2 },
+    ]);
+});
+
+test("get top referrers", async () => {
+    const shortId = "referrers";
+
+    await backend.recordVisit({ shortId, timestamp: new Date(), referrer: "https://google.com" });
+    await backend.recordVisit({ shortId, timestamp: new Date(), referrer: "https://google.com" });
+    await backend.recordVisit({ shortId, timestamp: new Date(), referrer: "https://bing.com" });
+    await backend.recordVisit({ shortId, timestamp: new Date() });
+    await backend.recordVisit({ shortId, timestamp: new Date() });
+    await backend.recordVisit({ shortId, timestamp: new Date() });
+
+    expect(await backend.getTopReferrers(shortId)).toEqual([
+        { referrer: null, clicks: 3 },
+        { referrer: "https://google.com", clicks: 2 },
+        { referrer: "https://bing.com", clicks: 1 },
+    ]);
+    expect(await backend.getTopReferrers(shortId, 1)).toEqual([
+        { referrer: null, clicks: 3 },
+    ]);
+});
@@ -0,0 +1,107 @@
+import { createManager, type IShortIdGenerator, ShortIdConflictError, ShortIdExhaustedError } from "@potonz/shortlinks-manager";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, type IShortLinksManagerD1Backend } from "src";
+
+let mf: Miniflare;
+let backend: IShortLinksManagerD1Backend;
+
+/**
+ * Generator handing out the contested ID first, like Workers whose random IDs collide
+ * @param contested
+ * @param name unique part of the following IDs
+ */
+function createCollidingGenerator(contested: string, name: string): IShortIdGenerator {
+    let calls = 0;
+    return {
+        generate: (count: number) => Array.from({ length: count }, (_, i) => calls++ === 0 && i === 0 ? contested : `${name}${calls}`),
+    };
+}
+
+/**
+ * Backend whose existence check does not see links created by other Workers in the meantime
+ */
+function withStaleExistenceCheck(d1Backend: IShortLinksManagerD1Backend): IShortLinksManagerD1Backend {
+    return {
+        ...d1Backend,
+        checkShortIdsExist: async () => [],
+    };
+}
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    backend = createD1Backend(await mf.getD1Database("DB"));
+    await backend.setupTables();
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("report a conflict instead of a constraint error", async () => {
+    await backend.createShortLink("taken", "https://poto.nz/first");
+
+    await expect(backend.createShortLink("taken", "https://poto.nz/second")).rejects.toBeInstanceOf(ShortIdConflictError);
+    expect(await backend.getTargetUrl("taken")).toBe("https://poto.nz/first");
+});
+
+test("retry concurrent creations picking the same short ID", async () => {
+    const managers = await Promise.all(Array.from({ length: 5 }, (_, i) => createManager({
+        backend: withStaleExistenceCheck(backend),
+        shortIdLength: 6,
+        shortIdGenerator: createCollidingGenerator("race", `worker${i}_`),
+    })));
+
+    const shortIds = await Promise.all(managers.map((manager, i) => manager.createShortLink(`https://poto.nz/${i}`)));
+
+    expect(new Set(shortIds).size).toBe(5);
+    expect(shortIds.filter(shortId => shortId === "race")).toHaveLength(1);
+
+    // Every link points to the target URL of its own creation
+    for (const [i, shortId] of shortIds.entries()) {
+        expect(await backend.getTargetUrl(shortId)).toBe(`https://poto.nz/${i}`);
+    }
+});
+
+test("retry concurrent bulk creations picking the same short IDs", async () => {
+    const managers = await Promise.all(["a", "b"].map(name => createManager({
+        backend: withStaleExistenceCheck(backend),
+        shortIdLength: 6,
+        shortIdGenerator: createCollidingGenerator("bulkRace", `bulk_${name}_`),
+    })));
+
+    const results = await Promise.all(managers.map(manager => manager.createShortLinks(["https://poto.nz/1", "https://poto.nz/2"])));
+    const shortIds = results.flat().map(result => result.success ? result.shortId : null);
+
+    expect(shortIds.every(Boolean)).toBeTrue();
+    expect(new Set(shortIds).size).toBe(4);
+});
+
+test("give up after repeated conflicts", async () => {
+    await backend.createShortLink("alwaysTaken", "https://poto.nz");
+
+    const manager = await createManager({
+        backend: withStaleExistenceCheck(backend),
+        shortIdLength: 6,
+        shortIdGenerator: { generate: () => ["alwaysTaken"] },
+    });
+
+    const error = await manager.createShortLink("https://poto.nz/other").catch(err => err);
+    expect(error).toBeInstanceOf(ShortIdExhaustedError);
+    expect(error.cause).toBeInstanceOf(ShortIdConflictError);
+});
@@ -0,0 +1,243 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, createD1RateLimiter, createRequestHandler, type IRequestHandler, type IShortLinksManagerD1Backend } from "src";
+
+interface IEnv {
+    DB: D1Database;
+    ADMIN_TOKEN: string;
+}
+
+let mf: Miniflare;
+let env: IEnv;
+let backend: IShortLinksManagerD1Backend;
+let handler: IRequestHandler<IEnv>;
+let waitUntilPromises: Promise<unknown>[];
+
+const ctx = {
+    waitUntil(promise: Promise<unknown>) {
+        waitUntilPromises.push(promise);
+    },
+    passThroughOnException() {},
+} as ExecutionContext;
+
+async function request(path: string, init?: RequestInit) {
+    waitUntilPromises = [];
+    const response = await handler.fetch(new Request(`https://poto.nz${path}`, init), env, ctx);
+    await Promise.all(waitUntilPromises);
+    return response;
+}
+
+function createLink(body: unknown, token = "secret") {
+    return request("/api/links", {
+        method: "POST",
+        headers: { "Authorization": `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+}
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    env = {
+        DB: await mf.getD1Database("DB"),
+        ADMIN_TOKEN: "secret",
+    };
+
+    backend = createD1Backend(env.DB);
+    await backend.setupTables();
+
+    handler = createRequestHandler<IEnv>({
+        getManagerProps: env => ({
+            backend: createD1Backend(env.DB),
+            analytics: createD1Backend(env.DB),
+            shortIdLength: 6,
+            onShortIdLengthUpdated: () => {},
+        }),
+        authorize: (request, env) => request.headers.get("Authorization") === `Bearer ${env.ADMIN_TOKEN}`,
+    });
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("redirect to the target url", async () => {
+    await backend.createShortLink("redirect", "https://poto.nz/target");
+
+    const response = await request("/redirect", { headers: { Referer: "https://google.com" } });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("https://poto.nz/target");
+    // Recorded through waitUntil
+    expect(await backend.getTopReferrers("redirect")).toEqual([{ referrer: "https://google.com", clicks: 1 }]);
+});
+
+test("respond 404 for unknown short ids", async () => {
+    expect((await request("/unknown")).status).toBe(404);
+    expect((await request("/")).status).toBe(404);
+    expect((await request("/a/b")).status).toBe(404);
+});
+
+test("respond 405 to HEAD requests without using up clicks", async () => {
+    await backend.createShortLink("oneTime", "https://poto.nz/once", { maxClicks: 1 });
+
+    const head = await request("/oneTime", { method: "HEAD" });
+    expect(head.status).toBe(405);
+    expect(head.headers.get("Allow")).toBe("GET");
+    expect(await backend.getTotalClicks("oneTime")).toBe(0);
+
+    expect((await request("/oneTime")).headers.get("Location")).toBe("https://poto.nz/once");
+    expect((await request("/oneTime")).status).toBe(404);
+});
+
+test("use the configured redirect status and not found response", async () => {
+    await backend.createShortLink("permanent", "https://poto.nz/permanent");
+
+    const customHandler = createRequestHandler<IEnv>({
+        getManagerProps: env => ({
+            backend: createD1Backend(env.DB),
+            shortIdLength: 6,
+            onShortIdLengthUpdated: () => {},
+        }),
+        authorize: () => true,
+        redirectStatus: 301,
+        notFound: () => new Response("Nothing here", { status: 404 }),
+    });
+
+    expect((await customHandler.fetch(new Request("https://poto.nz/permanent"), env, ctx)).status).toBe(301);
+    expect(await (await customHandler.fetch(new Request("https://poto.nz/unknown"), env, ctx)).text()).toBe("Nothing here");
+});
+
+test("create a short link", async () => {
+    const response = await createLink({ targetUrl: "https://poto.nz/created", shortId: "created" });
+
+    expect(response.status).toBe(201);
+    expect(await response.json<Record<string, unknown>>()).toEqual({ shortId: "created", shortUrl: "https://poto.nz/created" });
+    expect((await request("/created")).headers.get("Location")).toBe("https://poto.nz/created");
+});
+
+test("reject unauthorised admin requests", async () => {
+    const response = await createLink({ targetUrl: "https://poto.nz" }, "wrong");
+
+    expect(response.status).toBe(401);
+    expect((await request("/api/links", { method: "POST" })).status).toBe(401);
+});
+
+test("reject invalid create requests", async () => {
+    expect((await createLink({ shortId: "noTarget" })).status).toBe(400);
+    expect((await createLink("not an object")).status).toBe(400);
+
+    expect((await createLink({ targetUrl: "https://poto.nz", expiresAt: "garbage" })).status).toBe(400);
+    expect((await createLink({ targetUrl: "https://poto.nz", expiresAt: "2000-01-01" })).status).toBe(400);
+    expect((await createLink({ targetUrl: "https://poto.nz", ttl: -60 })).status).toBe(400);
+
+    const invalidUrl = await createLink({ targetUrl: "javascript:alert(1)" });
+    expect(invalidUrl.status).toBe(400);
+    expect(await invalidUrl.json<Record<string, unknown>>()).toMatchObject({ code: "INVALID_TARGET_URL", reason: "protocol" });
+
+    const reserved = await createLink({ targetUrl: "https://poto.nz", shortId: "api" });
+    expect(reserved.status).toBe(400);
+    expect(await reserved.json<Record<string, unknown>>()).toMatchObject({ code: "INVALID_SHORT_ID", reason: "reserved" });
+
+    const protectedLink = await createLink({ targetUrl: "https://poto.nz", password: "secret" });
+    expect(protectedLink.status).toBe(400);
+    expect(await protectedLink.json<Record<string, unknown>>()).toMatchObject({ code: "UNSUPPORTED_FEATURE" });
+
+    await createLink({ targetUrl: "https://poto.nz", shortId: "taken" });
+    const conflict = await createLink({ targetUrl: "https://poto.nz", shortId: "taken" });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json<Record<string, unknown>>()).toMatchObject({ code: "SHORT_ID_CONFLICT" });
+});
+
+test("respond 405 and 404 for other admin routes", async () => {
+    const headers = { Authorization: "Bearer secret" };
+
+    expect((await request("/api/links", { headers })).status).toBe(405);
+    expect((await request("/api/unknown", { headers })).status).toBe(404);
+});
+
+test("rate limit link creation by client IP", async () => {
+    const limitedHandler = createRequestHandler<IEnv>({
+        getManagerProps: env => ({
+            backend: createD1Backend(env.DB),
+            shortIdLength: 6,
+            onShortIdLengthUpdated: () => {},
+            rateLimit: {
+                perCaller: createD1RateLimiter(env.DB, { name: "handler", limit: 1, window: 3600 }),
+            },
+        }),
+        authorize: () => true,
+    });
+
+    function createLimitedLink(ip: string) {
+        return limitedHandler.fetch(new Request("https://poto.nz/api/links", {
+            method: "POST",
+            headers: { "CF-Connecting-IP": ip },
+            body: JSON.stringify({ targetUrl: "https://poto.nz/limited" }),
+        }), env, ctx);
+    }
+
+    expect((await createLimitedLink("1.1.1.1")).status).toBe(201);
+
+    const limited = await createLimitedLink("1.1.1.1");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(await limited.json<Record<string, unknown>>()).toMatchObject({ code: "RATE_LIMIT_EXCEEDED" });
+
+    expect((await createLimitedLink("2.2.2.2")).status).toBe(201);
+});
+
+test("respond 503 when the backend fails", async () => {
+    const failingHandler = createRequestHandler<IEnv>({
+        getManagerProps: env => ({
+            backend: createD1Backend(env.DB, { tablePrefix: "missing_" }),
+            shortIdLength: 6,
+        }),
+        authorize: () => true,
+    });
+
+    const response = await failingHandler.fetch(new Request("https://poto.nz/api/links", {
+        method: "POST",
+        body: JSON.stringify({ targetUrl: "https://poto.nz" }),
+    }), env, ctx);
+
+    expect(response.status).toBe(503);
+    expect(await response.json<Record<string, unknown>>()).toEqual({ error: "Service unavailable", code: "BACKEND_UNAVAILABLE" });
+});
+
+test("clean up links on schedule", async () => {
+    await backend.createShortLink("scheduledExpired", "https://poto.nz", { expiresAt: new Date(Date.now() - 60_000) });
+
+    const results: unknown[] = [];
+    const scheduledHandler = createRequestHandler<IEnv>({
+        getManagerProps: env => ({
+            backend: createD1Backend(env.DB),
+            shortIdLength: 6,
+            onShortIdLengthUpdated: () => {},
+        }),
+        authorize: () => false,
+        cleanup: { batchSize: 100 },
+        onCleanup: (result) => {
+            results.push(result);
+        },
+    });
+
+    await scheduledHandler.scheduled({ scheduledTime: Date.now(), cron: "0 * * * *", noRetry() {} }, env, ctx);
+
+    expect(results).toEqual([{ unusedLinks: 0, expiredLinks: 1, purgedLinks: 0, hasMore: false }]);
+    expect(await backend.getShortLink("scheduledExpired")).toBeNull();
+});
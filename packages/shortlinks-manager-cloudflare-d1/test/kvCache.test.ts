@@ -0,0 +1,129 @@
+import { CACHED_MISS, createManager } from "@potonz/shortlinks-manager";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, createKVCache } from "src";
+
+let mf: Miniflare;
+let db: D1Database;
+let kv: KVNamespace;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+        kvNamespaces: ["KV"],
+    });
+
+    await mf.ready;
+
+    db = await mf.getD1Database("DB");
+    // Miniflare types the namespace with its own request types
+    kv = await mf.getKVNamespace("KV") as unknown as KVNamespace;
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("get, set and delete target urls", async () => {
+    const cache = createKVCache(kv);
+
+    expect(await cache.get("kv1")).toBeNull();
+
+    await cache.set("kv1", "https://poto.nz");
+    expect(await cache.get("kv1")).toBe("https://poto.nz");
+    expect(await kv.get("kv1")).toBe("https://poto.nz");
+
+    await cache.delete("kv1");
+    expect(await cache.get("kv1")).toBeNull();
+});
+
+test("prefix keys", async () => {
+    const cache = createKVCache(kv, { keyPrefix: "sl:" });
+
+    await cache.set("kv2", "https://poto.nz");
+
+    expect(await kv.get("sl:kv2")).toBe("https://poto.nz");
+    expect(await kv.get("kv2")).toBeNull();
+    expect(await cache.get("kv2")).toBe("https://poto.nz");
+});
+
+test("expire entries", async () => {
+    const cache = createKVCache(kv, { keyPrefix: "ttl:", expirationTtl: 3600 });
+
+    await cache.set("kv3", "https://poto.nz");
+
+    const { keys } = await kv.list({ prefix: "ttl:" });
+    expect(keys).toHaveLength(1);
+    expect(keys[0]!.expiration).toBeGreaterThan(Date.now() / 1000);
+    expect(keys[0]!.expiration).toBeLessThanOrEqual(Date.now() / 1000 + 3600);
+});
+
+test("cache misses only if enabled", async () => {
+    const cache = createKVCache(kv, { keyPrefix: "miss:" });
+    await cache.setMiss("kv4");
+    expect((await kv.list({ prefix: "miss:" })).keys).toHaveLength(0);
+
+    const negativeCache = createKVCache(kv, { keyPrefix: "miss:", negativeTtl: 60 });
+    await negativeCache.setMiss("kv4");
+
+    const { keys } = await kv.list({ prefix: "miss:" });
+    expect(keys).toHaveLength(1);
+    expect(keys[0]!.expiration).toBeLessThanOrEqual(Date.now() / 1000 + 60);
+    expect(await negativeCache.get("kv4")).toBe(CACHED_MISS);
+});
+
+test("use as a manager cache", async () => {
+    const backend = createD1Backend(db);
+    await backend.setupTables();
+
+    const cache = createKVCache(kv, { keyPrefix: "manager:" });
+    const manager = await createManager({
+        backend,
+        caches: [cache],
+        shortIdLength: 6,
+        onShortIdLengthUpdated: () => {},
+    });
+
+    const shortId = await manager.createShortLink("https://poto.nz/manager");
+    expect(await cache.get(`sl_:${shortId}`)).toBe("https://poto.nz/manager");
+
+    // Resolved from KV only
+    await backend.deleteShortLink(shortId);
+    expect(await manager.getTargetUrl(shortId)).toBe("https://poto.nz/manager");
+});
+
+test("skip a failing namespace for caches created per request", async () => {
+    const backend = createD1Backend(db);
+    await backend.setupTables();
+    await backend.createShortLink("kvDown", "https://poto.nz/down");
+
+    let gets = 0;
+    const failingKv = {
+        get: () => {
+            ++gets;
+            return Promise.reject(new Error("KV is down"));
+        },
+    } as unknown as KVNamespace;
+
+    for (let i = 0; i < 3; i++) {
+        const manager = await createManager({
+            backend,
+            caches: [createKVCache(failingKv)],
+            shortIdLength: 6,
+            waitUntil: () => {},
+        });
+        expect(await manager.getTargetUrl("kvDown")).toBe("https://poto.nz/down");
+    }
+
+    expect(gets).toBe(1);
+});
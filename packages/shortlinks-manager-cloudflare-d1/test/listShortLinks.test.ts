@@ -0,0 +1,134 @@
+import { ValidationError } from "@potonz/shortlinks-manager";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, type IShortLinksManagerD1Backend } from "src";
+
+let mf: Miniflare;
+let backend: IShortLinksManagerD1Backend;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    const db = await mf.getD1Database("DB");
+    backend = createD1Backend(db);
+    await backend.init?.();
+    await backend.setupTables();
+
+    // 5 links created a day apart, accessed in reverse order
+    for (let i = 1; i <= 5; i++) {
+        await backend.createShortLink(`link${i}`, i % 2 ? `https://poto.nz/page/${i}` : `https://example.com/page_${i}`);
+        await db.prepare("UPDATE sl_links_map SET created_at = ?, last_accessed_at = ? WHERE short_id = ?")
+            .bind(`2026-01-0${i} 00:00:00`, `2026-02-0${6 - i} 00:00:00`, `link${i}`)
+            .run();
+    }
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("list links sorted by created date descending by default", async () => {
+    const page = await backend.listShortLinks();
+
+    expect(page.links.map(l => l.shortId)).toEqual(["link5", "link4", "link3", "link2", "link1"]);
+    expect(page.nextCursor).toBeNull();
+    expect(page.links[0]).toMatchObject({
+        shortId: "link5",
+        targetUrl: "https://poto.nz/page/5",
+        createdAt: new Date(2026, 0, 5),
+        lastAccessedAt: new Date(2026, 1, 1),
+        expiresAt: null,
+    });
+});
+
+test("paginate with cursor", async () => {
+    const page1 = await backend.listShortLinks({ limit: 2, order: "asc" });
+    expect(page1.links.map(l => l.shortId)).toEqual(["link1", "link2"]);
+    expect(page1.nextCursor).not.toBeNull();
+
+    const page2 = await backend.listShortLinks({ limit: 2, order: "asc", cursor: page1.nextCursor });
+    expect(page2.links.map(l => l.shortId)).toEqual(["link3", "link4"]);
+
+    const page3 = await backend.listShortLinks({ limit: 2, order: "asc", cursor: page2.nextCursor });
+    expect(page3.links.map(l => l.shortId)).toEqual(["link5"]);
+    expect(page3.nextCursor).toBeNull();
+});
+
+test("sort by last accessed date", async () => {
+    const page1 = await backend.listShortLinks({ sortBy: "lastAccessedAt", limit: 3 });
+    expect(page1.links.map(l => l.shortId)).toEqual(["link1", "link2", "link3"]);
+
+    const page2 = await backend.listShortLinks({ sortBy: "lastAccessedAt", limit: 3, cursor: page1.nextCursor });
+    expect(page2.links.map(l => l.shortId)).toEqual(["link4", "link5"]);
+});
+
+test("filter by target url substring", async () => {
+    const page = await backend.listShortLinks({ targetUrlContains: "page/" });
+    expect(page.links.map(l => l.shortId)).toEqual(["link5", "link3", "link1"]);
+
+    // LIKE wildcards should be matched literally
+    const underscorePage = await backend.listShortLinks({ targetUrlContains: "page_" });
+    expect(underscorePage.links.map(l => l.shortId)).toEqual(["link4", "link2"]);
+});
+
+test("filter by domain", async () => {
+    const page = await backend.listShortLinks({ domain: "Example.com" });
+    expect(page.links.map(l => l.shortId)).toEqual(["link4", "link2"]);
+
+    await backend.updateTargetUrl("link2", "https://www.example.com/page_2");
+    expect((await backend.listShortLinks({ domain: "example.com" })).links.map(l => l.shortId)).toEqual(["link4", "link2"]);
+    expect((await backend.listShortLinks({ domain: "www.example.com" })).links.map(l => l.shortId)).toEqual(["link2"]);
+
+    await backend.updateTargetUrl("link2", "https://notexample.com/page_2");
+    expect((await backend.listShortLinks({ domain: "example.com" })).links.map(l => l.shortId)).toEqual(["link4"]);
+
+    await backend.updateTargetUrl("link2", "https://example.com/page_2");
+    await backend.updateTargetUrl("link4", "https://poto.nz/moved");
+    const updatedPage = await backend.listShortLinks({ domain: "example.com" });
+    expect(updatedPage.links.map(l => l.shortId)).toEqual(["link2"]);
+});
+
+test("filter by date ranges", async () => {
+    const createdPage = await backend.listShortLinks({
+        createdAfter: new Date(2026, 0, 2),
+        createdBefore: new Date(2026, 0, 4),
+    });
+    expect(createdPage.links.map(l => l.shortId)).toEqual(["link4", "link3", "link2"]);
+
+    const accessedPage = await backend.listShortLinks({
+        accessedAfter: new Date(2026, 1, 4),
+    });
+    expect(accessedPage.links.map(l => l.shortId)).toEqual(["link2", "link1"]);
+});
+
+test("reject invalid cursor", async () => {
+    await expect(backend.listShortLinks({ cursor: "not-a-cursor" })).rejects.toThrow("Invalid cursor");
+});
+
+test("reject invalid limits", async () => {
+    for (const limit of [0, -2, 1.5, Number.NaN]) {
+        await expect(backend.listShortLinks({ limit })).rejects.toBeInstanceOf(ValidationError);
+    }
+});
+
+test("cap the limit", async () => {
+    await backend.createShortLinks(Array.from({ length: 1000 }, (_, i) => ({ shortId: `bulk${i}`, targetUrl: "https://poto.nz/bulk" })));
+
+    const page = await backend.listShortLinks({ limit: 5000 });
+    expect(page.links).toHaveLength(1000);
+    expect(page.nextCursor).not.toBeNull();
+});
@@ -0,0 +1,121 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, getMigrations } from "src";
+
+let mf: Miniflare;
+let db: D1Database;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    db = await mf.getD1Database("DB");
+});
+
+beforeEach(async () => {
+    // Start every test from an empty database
+    await db.batch([
+        db.prepare("DROP TABLE IF EXISTS sl_links_map"),
+        db.prepare("DROP TABLE IF EXISTS sl_link_visits"),
+        db.prepare("DROP TABLE IF EXISTS sl_schema_version"),
+    ]);
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+const migrations = getMigrations();
+const latestVersion = migrations[migrations.length - 1]!.version;
+
+test("migrations should be in ascending order", () => {
+    migrations.forEach((migration, i) => {
+        expect(migration.version).toBe(i + 1);
+    });
+});
+
+test("list pending migrations without applying them", async () => {
+    const backend = createD1Backend(db);
+
+    expect(await backend.getSchemaVersion()).toBe(0);
+    expect(await backend.getPendingMigrations()).toEqual([...migrations]);
+
+    // Still nothing applied
+    expect(await backend.getSchemaVersion()).toBe(0);
+    const tables = await db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'sl_%'").all();
+    expect(tables.results).toHaveLength(0);
+});
+
+test("apply all migrations to a new database", async () => {
+    const backend = createD1Backend(db);
+
+    expect(await backend.setupTables()).toEqual([...migrations]);
+    expect(await backend.getSchemaVersion()).toBe(latestVersion);
+    expect(await backend.getPendingMigrations()).toEqual([]);
+
+    await backend.createShortLink("new", "https://poto.nz", { expiresAt: new Date(Date.now() + 60_000), maxClicks: 1 });
+    expect(await backend.getTargetUrl("new")).toBe("https://poto.nz");
+});
+
+test("apply migrations only once", async () => {
+    const backend = createD1Backend(db);
+
+    await backend.setupTables();
+    expect(await backend.setupTables()).toEqual([]);
+
+    const versions = await db.prepare("SELECT version FROM sl_schema_version").all<{ version: number }>();
+    expect(versions.results.map(r => r.version)).toEqual(migrations.map(m => m.version));
+});
+
+test("upgrade a database created before migrations", async () => {
+    // Schema created by the first version of setupTables
+    await db.prepare(`
+CREATE TABLE sl_links_map (
+    short_id VARCHAR(255) NOT NULL PRIMARY KEY,
+    target_url VARCHAR(65535) NOT NULL,
+    last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+)
+`).run();
+    await db.prepare("INSERT INTO sl_links_map (short_id, target_url) VALUES (?, ?)").bind("legacy", "https://poto.nz/legacy").run();
+    // More than one backfill batch
+    await db.batch(Array.from({ length: 150 }, (_, i) =>
+        db.prepare("INSERT INTO sl_links_map (short_id, target_url) VALUES (?, ?)").bind(`legacy${i}`, `https://www.Poto.nz/legacy/${i}`)));
+
+    const backend = createD1Backend(db);
+    expect(await backend.getPendingMigrations()).toHaveLength(migrations.length);
+
+    await backend.setupTables();
+
+    expect(await backend.getTargetUrl("legacy")).toBe("https://poto.nz/legacy");
+    expect(await backend.getShortLink("legacy")).toMatchObject({ expiresAt: null, passwordHash: null, remainingClicks: null });
+
+    // Existing links are matched like new ones
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/legacy")).toBe("legacy");
+    expect(await backend.findShortIdByTargetUrl("https://www.Poto.nz/legacy/149")).toBe("legacy149");
+    expect((await backend.listShortLinks({ domain: "www.poto.nz", limit: 200 })).links).toHaveLength(150);
+    expect(await db.prepare("SELECT COUNT(*) AS count FROM sl_links_map WHERE target_hash IS NULL").first<number>("count")).toBe(0);
+});
+
+test("concurrent setups should not apply a migration twice", async () => {
+    const results = await Promise.all([
+        createD1Backend(db).setupTables(),
+        createD1Backend(db).setupTables(),
+    ]);
+
+    expect(await createD1Backend(db).getSchemaVersion()).toBe(latestVersion);
+    expect(results.flat().map(m => m.version).sort((a, b) => a - b)).toEqual(migrations.map(m => m.version));
+});
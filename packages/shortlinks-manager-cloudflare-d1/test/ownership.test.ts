@@ -0,0 +1,110 @@
+import { createManager, LruCache } from "@potonz/shortlinks-manager";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, type IShortLinksManagerD1Backend } from "src";
+
+let mf: Miniflare;
+let backend: IShortLinksManagerD1Backend;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    const db = await mf.getD1Database("DB");
+    backend = createD1Backend(db);
+    await backend.setupTables();
+
+    await backend.createShortLink("alice1", "https://poto.nz/alice1", { ownerId: "alice" });
+    await backend.createShortLink("alice2", "https://poto.nz/alice2", { ownerId: "alice" });
+    await backend.createShortLink("bob1", "https://poto.nz/bob1", { ownerId: "bob" });
+    await backend.createShortLink("nobody", "https://poto.nz/nobody");
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("store the owner of links", async () => {
+    expect((await backend.getShortLink("alice1"))?.ownerId).toBe("alice");
+    expect((await backend.getShortLink("nobody"))?.ownerId).toBeNull();
+});
+
+test("list the links of an owner", async () => {
+    const page = await backend.listShortLinks({ ownerId: "alice" });
+    expect(page.links.map(link => link.shortId).sort()).toEqual(["alice1", "alice2"]);
+
+    expect((await backend.listShortLinks({ ownerId: "carol" })).links).toEqual([]);
+});
+
+test("count the links of an owner", async () => {
+    expect(await backend.countShortLinksByOwner("alice")).toBe(2);
+    expect(await backend.countShortLinksByOwner("bob")).toBe(1);
+    expect(await backend.countShortLinksByOwner("carol")).toBe(0);
+});
+
+test("only update links of the owner", async () => {
+    expect(await backend.updateOwnedTargetUrl("bob", "alice1", "https://poto.nz/stolen")).toBeFalse();
+    expect(await backend.getTargetUrl("alice1")).toBe("https://poto.nz/alice1");
+
+    expect(await backend.updateOwnedTargetUrl("alice", "alice1", "https://poto.nz/updated")).toBeTrue();
+    expect(await backend.getTargetUrl("alice1")).toBe("https://poto.nz/updated");
+});
+
+test("only delete links of the owner", async () => {
+    expect(await backend.deleteOwnedShortLink("alice", "bob1")).toBeFalse();
+    expect(await backend.deleteOwnedShortLink("alice", "nobody")).toBeFalse();
+    expect(await backend.checkShortIdsExist(["bob1", "nobody"])).toEqual(["bob1", "nobody"]);
+
+    expect(await backend.deleteOwnedShortLink("bob", "bob1")).toBeTrue();
+    expect(await backend.countShortLinksByOwner("bob")).toBe(0);
+});
+
+test("never reuse links of an owner for the same target", async () => {
+    await backend.createShortLink("owned", "https://poto.nz/shared", { ownerId: "alice" });
+
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/shared")).toBeNull();
+});
+
+test("manage owned links through the manager", async () => {
+    const cache = new LruCache();
+    const manager = await createManager({
+        backend,
+        caches: [cache],
+        shortIdLength: 6,
+        onShortIdLengthUpdated: () => {},
+        options: {
+            reuseExistingForSameTarget: true,
+        },
+    });
+
+    const shortId = await manager.createShortLink("https://poto.nz/managed", { ownerId: "dave" });
+    expect(await manager.countShortLinksByOwner("dave")).toBe(1);
+    expect((await manager.listShortLinks({ ownerId: "dave" })).links.map(link => link.shortId)).toEqual([shortId]);
+
+    // Another user creating the same target gets their own link
+    expect(await manager.createShortLink("https://poto.nz/managed", { ownerId: "erin" })).not.toBe(shortId);
+
+    expect(await manager.updateOwnedTargetUrl("erin", shortId, "https://poto.nz/stolen")).toBeFalse();
+    expect(await manager.updateOwnedTargetUrl("dave", shortId, "https://poto.nz/moved")).toBeTrue();
+    expect(cache.get(`sl_:${shortId}`)).toBe("https://poto.nz/moved");
+
+    expect(await manager.deleteOwnedShortLink("erin", shortId)).toBeFalse();
+    expect(cache.get(`sl_:${shortId}`)).toBe("https://poto.nz/moved");
+
+    expect(await manager.deleteOwnedShortLink("dave", shortId)).toBeTrue();
+    expect(cache.get(`sl_:${shortId}`)).toBeNull();
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+});
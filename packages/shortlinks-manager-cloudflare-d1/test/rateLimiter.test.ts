@@ -0,0 +1,86 @@
+import { afterAll, afterEach, beforeAll, expect, setSystemTime, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, createD1RateLimiter } from "src";
+
+let mf: Miniflare;
+let db: D1Database;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    db = await mf.getD1Database("DB");
+    await createD1Backend(db).setupTables();
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+afterEach(() => {
+    setSystemTime();
+});
+
+test("count links per caller in fixed windows", async () => {
+    setSystemTime(new Date("2025-01-01T00:00:30Z"));
+    const limiter = createD1RateLimiter(db, { name: "windows", limit: 3, window: 60 });
+
+    expect(await limiter.consume("a", 2)).toEqual({ allowed: true, remaining: 1, retryAfter: 30 });
+    expect(await limiter.consume("a", 1)).toEqual({ allowed: true, remaining: 0, retryAfter: 30 });
+    expect(await limiter.consume("a", 1)).toEqual({ allowed: false, remaining: 0, retryAfter: 30 });
+    expect(await limiter.consume("b", 1)).toEqual({ allowed: true, remaining: 2, retryAfter: 30 });
+
+    setSystemTime(new Date("2025-01-01T00:01:10Z"));
+    expect(await limiter.consume("a", 1)).toEqual({ allowed: true, remaining: 2, retryAfter: 50 });
+});
+
+test("keep limiters with different names apart", async () => {
+    const hourly = createD1RateLimiter(db, { name: "hourly", limit: 1, window: 3600 });
+    const daily = createD1RateLimiter(db, { name: "daily", limit: 5, window: 86400 });
+
+    expect((await hourly.consume("a", 1)).allowed).toBeTrue();
+    expect((await daily.consume("a", 1)).remaining).toBe(4);
+    expect((await hourly.consume("a", 1)).allowed).toBeFalse();
+});
+
+test("never exceed the limit with concurrent calls", async () => {
+    const limiter = createD1RateLimiter(db, { name: "concurrent", limit: 5, window: 3600 });
+
+    const results = await Promise.all(Array.from({ length: 10 }, () => limiter.consume("a", 1)));
+
+    expect(results.filter(result => result.allowed)).toHaveLength(5);
+});
+
+test("clean expired windows", async () => {
+    setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    const limiter = createD1RateLimiter(db, { name: "cleanup", limit: 1, window: 60 });
+    await limiter.consume("old", 1);
+
+    setSystemTime(new Date("2025-01-01T00:01:00Z"));
+    await limiter.consume("current", 1);
+
+    expect(await limiter.cleanExpiredWindows()).toBe(1);
+    expect((await limiter.consume("current", 1)).allowed).toBeFalse();
+});
+
+test("reject invalid prefixes", () => {
+    expect(() => createD1RateLimiter(db, { name: "invalid", limit: 1, window: 60, tablePrefix: "a; --" })).toThrow("Invalid table prefix");
+});
+
+test("reject invalid limits and windows", () => {
+    expect(() => createD1RateLimiter(db, { name: "invalid", limit: 0, window: 60 })).toThrow("limit must be a positive integer");
+    expect(() => createD1RateLimiter(db, { name: "invalid", limit: 1, window: 0 })).toThrow("window must be a positive number");
+});
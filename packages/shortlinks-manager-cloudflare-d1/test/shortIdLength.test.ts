@@ -0,0 +1,148 @@
+import { createManager, createRandomShortIdGenerator } from "@potonz/shortlinks-manager";
+import { afterAll, afterEach, beforeAll, expect, setSystemTime, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend } from "src";
+
+let mf: Miniflare;
+let db: D1Database;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    db = await mf.getD1Database("DB");
+});
+
+afterEach(() => {
+    setSystemTime();
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("store the short ID length", async () => {
+    const backend = createD1Backend(db, { tablePrefix: "stored_" });
+    await backend.setupTables();
+
+    expect(await backend.getShortIdLength()).toBeNull();
+    expect(await backend.increaseShortIdLength(4)).toBe(5);
+    expect(await backend.getShortIdLength()).toBe(5);
+
+    // Instances growing from a stale length get the stored one
+    expect(await backend.increaseShortIdLength(3)).toBe(5);
+
+    // Compared as numbers, not as text
+    expect(await backend.increaseShortIdLength(9)).toBe(10);
+    expect(await backend.increaseShortIdLength(8)).toBe(10);
+});
+
+test("grow the length only once when growing at the same time", async () => {
+    const backend = createD1Backend(db, { tablePrefix: "concurrent_" });
+    await backend.setupTables();
+
+    const lengths = await Promise.all(Array.from({ length: 5 }, () => backend.increaseShortIdLength(6)));
+
+    expect(lengths).toEqual([7, 7, 7, 7, 7]);
+    expect(await backend.getShortIdLength()).toBe(7);
+});
+
+test("count short IDs of a length", async () => {
+    const backend = createD1Backend(db, { tablePrefix: "counted_" });
+    await backend.setupTables();
+    await backend.createShortLinks(["abc", "abd", "abcd"].map(shortId => ({ shortId, targetUrl: "https://poto.nz" })));
+
+    expect(await backend.countShortIdsOfLength(3)).toBe(2);
+    expect(await backend.countShortIdsOfLength(4)).toBe(1);
+    expect(await backend.countShortIdsOfLength(5)).toBe(0);
+});
+
+test("reuse the stored count until it is too old", async () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    const backend = createD1Backend(db, { tablePrefix: "recounted_", shortIdCountMaxAge: 60 });
+    await backend.setupTables();
+    await backend.createShortLink("abc", "https://poto.nz");
+
+    expect(await backend.countShortIdsOfLength(3)).toBe(1);
+
+    await backend.createShortLink("abd", "https://poto.nz");
+    expect(await backend.countShortIdsOfLength(3)).toBe(1);
+    // Shared by backends created later, e.g. for the next request
+    expect(await createD1Backend(db, { tablePrefix: "recounted_", shortIdCountMaxAge: 60 }).countShortIdsOfLength(3)).toBe(1);
+
+    setSystemTime(new Date(now.getTime() + 61_000));
+    expect(await backend.countShortIdsOfLength(3)).toBe(2);
+});
+
+test("start managers from the stored length", async () => {
+    const backend = createD1Backend(db, { tablePrefix: "shared_" });
+    await backend.setupTables();
+    await backend.increaseShortIdLength(6);
+
+    const manager = await createManager({ backend, shortIdLength: 4 });
+
+    expect(await manager.createShortLink("https://poto.nz")).toHaveLength(7);
+});
+
+test("read the stored length only when generating IDs", async () => {
+    const backend = createD1Backend(db, { tablePrefix: "lazy_" });
+    await backend.setupTables();
+    await backend.createShortLink("lazy", "https://poto.nz/lazy");
+
+    let reads = 0;
+    const manager = await createManager({
+        backend: {
+            ...backend,
+            getShortIdLength: () => {
+                ++reads;
+                return backend.getShortIdLength();
+            },
+        },
+        shortIdLength: 4,
+    });
+
+    expect(await manager.getTargetUrl("lazy")).toBe("https://poto.nz/lazy");
+    expect(reads).toBe(0);
+
+    await manager.createShortLink("https://poto.nz/1");
+    await manager.createShortLink("https://poto.nz/2");
+    expect(reads).toBe(1);
+});
+
+test("grow the length before the ID space runs out", async () => {
+    const backend = createD1Backend(db, { tablePrefix: "keyspace_" });
+    await backend.setupTables();
+    await backend.createShortLinks(["aa", "ab"].map(shortId => ({ shortId, targetUrl: "https://poto.nz" })));
+
+    const lengths: number[] = [];
+    const manager = await createManager({
+        backend,
+        shortIdLength: 2,
+        onShortIdLengthUpdated: (newLength) => {
+            lengths.push(newLength);
+        },
+        shortIdGenerator: createRandomShortIdGenerator({ alphabet: "ab" }),
+        options: {
+            keyspaceGrowthThreshold: 0.5,
+        },
+    });
+
+    expect(await manager.createShortLink("https://poto.nz")).toMatch(/^[ab]{3}$/);
+    expect(lengths).toEqual([3]);
+    expect(await backend.getShortIdLength()).toBe(3);
+});
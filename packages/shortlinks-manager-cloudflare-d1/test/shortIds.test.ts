@@ -1,3 +1,4 @@
+import { hashPassword, ShortIdConflictError } from "@potonz/shortlinks-manager";
 import { afterAll, beforeAll, expect, test } from "bun:test";
 import { lightFormat } from "date-fns";
 import { Miniflare } from "miniflare";
@@ -40,6 +41,17 @@ test("create a short link", async () => {
     expect(backend.createShortLink(expected[0], expected[1])).resolves.toBeUndefined();
 });
 
+test("create a short link with an existing short id", async () => {
+    const shortId = "conflict";
+
+    await backend.createShortLink(shortId, "https://poto.nz");
+
+    const promise = backend.createShortLink(shortId, "https://poto.nz/other");
+    await expect(promise).rejects.toBeInstanceOf(ShortIdConflictError);
+    await expect(promise).rejects.toMatchObject({ shortId });
+    expect(backend.getTargetUrl(shortId)).resolves.toBe("https://poto.nz");
+});
+
 test("get url by short id", async () => {
     const shortId = "abCD90";
     const expected = "https://poto.nz";
@@ -90,6 +102,9 @@ test("check if short ids exist", async () => {
 
     // Should only return the existing IDs
     expect(result).toEqual(existingIds);
+
+    // Should work with a different number of IDs
+    expect(await backend.checkShortIdsExist([existingIds[0]!])).toEqual([existingIds[0]!]);
 });
 
 test("update short link last access time", async () => {
@@ -120,3 +135,130 @@ test("update short link last access time", async () => {
     // Verify the timestamp was updated
     expect(updatedResult!.last_accessed_at).not.toEqual(initialResult!.last_accessed_at);
 });
+
+test("create a short link with expiry", async () => {
+    const shortId = "expiring";
+    const expiresAt = new Date(Date.now() + 60_000);
+    expiresAt.setMilliseconds(0);
+
+    await backend.createShortLink(shortId, "https://poto.nz", { expiresAt });
+
+    expect(backend.getTargetUrl(shortId)).resolves.toBe("https://poto.nz");
+    expect(await backend.getShortLink(shortId)).toMatchObject({
+        shortId,
+        targetUrl: "https://poto.nz",
+        expiresAt,
+    });
+});
+
+test("expired links should not resolve and be cleaned", async () => {
+    const expiredId = "expired";
+    const validId = "notExpired";
+
+    await db.prepare("INSERT INTO sl_links_map (short_id, target_url, expires_at) VALUES (?, ?, ?), (?, ?, ?)")
+        .bind(
+            expiredId, "https://poto.nz", "1970-01-01 00:00:00",
+            validId, "https://poto.nz", "2999-01-01 00:00:00",
+        )
+        .run();
+
+    expect(await backend.getTargetUrl(expiredId)).toBeNull();
+    expect(await backend.getShortLink(expiredId)).not.toBeNull();
+
+    const cleaned = await backend.cleanExpiredLinks();
+
+    expect(cleaned).toContain(expiredId);
+    expect(cleaned).not.toContain(validId);
+    expect(await backend.getShortLink(expiredId)).toBeNull();
+    expect(await backend.getTargetUrl(validId)).toBe("https://poto.nz");
+});
+
+test("update target url", async () => {
+    const shortId = "updateTest";
+
+    await backend.createShortLink(shortId, "https://poto.nz/old");
+
+    expect(await backend.updateTargetUrl(shortId, "https://poto.nz/new")).toBeTrue();
+    expect(await backend.getTargetUrl(shortId)).toBe("https://poto.nz/new");
+    expect(await backend.updateTargetUrl("does-not-exist", "https://poto.nz")).toBeFalse();
+});
+
+test("delete short link", async () => {
+    const shortId = "deleteTest";
+
+    await backend.createShortLink(shortId, "https://poto.nz");
+
+    expect(await backend.deleteShortLink(shortId)).toBeTrue();
+    expect(await backend.getTargetUrl(shortId)).toBeNull();
+    expect(await backend.deleteShortLink(shortId)).toBeFalse();
+});
+
+test("find short id by target url", async () => {
+    await backend.createShortLink("findTest", "https://poto.nz/find?b=2&a=1");
+    await backend.createShortLink("findExpiring", "https://poto.nz/expiring", { expiresAt: new Date(Date.now() + 60_000) });
+
+    expect(await backend.findShortIdByTargetUrl("HTTPS://POTO.NZ/find?a=1&b=2")).toBe("findTest");
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/expiring")).toBeNull();
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/not-found")).toBeNull();
+
+    await backend.updateTargetUrl("findTest", "https://poto.nz/found");
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/find?a=1&b=2")).toBeNull();
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/found")).toBe("findTest");
+});
+
+test("create short links in bulk", async () => {
+    await backend.createShortLink("bulkTaken", "https://poto.nz/taken");
+
+    const created = await backend.createShortLinks([
+        { shortId: "bulk1", targetUrl: "https://poto.nz/1" },
+        { shortId: "bulkTaken", targetUrl: "https://poto.nz/2" },
+        { shortId: "bulk3", targetUrl: "https://poto.nz/3", attributes: { expiresAt: new Date(Date.now() + 60_000) } },
+    ]);
+
+    expect(created).toEqual(["bulk1", "bulk3"]);
+    expect(await backend.getTargetUrl("bulk1")).toBe("https://poto.nz/1");
+    expect(await backend.getTargetUrl("bulkTaken")).toBe("https://poto.nz/taken");
+    expect((await backend.getShortLink("bulk3"))!.expiresAt).not.toBeNull();
+    expect(await backend.createShortLinks([])).toEqual([]);
+});
+
+test("password protected links", async () => {
+    const passwordHash = await hashPassword("secret");
+    await backend.createShortLink("protected", "https://poto.nz/protected", { passwordHash });
+    await backend.createShortLinks([{ shortId: "bulkProtected", targetUrl: "https://poto.nz/protected", attributes: { passwordHash } }]);
+
+    // Only readable with the hash so the manager can check the password
+    expect(await backend.getTargetUrl("protected")).toBeNull();
+    expect(await backend.getTargetUrl("bulkProtected")).toBeNull();
+    expect(await backend.getShortLink("protected")).toMatchObject({ targetUrl: "https://poto.nz/protected", passwordHash });
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/protected")).toBeNull();
+    expect((await backend.getShortLink("aB0"))!.passwordHash).toBeNull();
+});
+
+test("consume clicks of links with a click limit", async () => {
+    await backend.createShortLink("limited", "https://poto.nz/limited", { maxClicks: 2 });
+
+    expect(await backend.findShortIdByTargetUrl("https://poto.nz/limited")).toBeNull();
+    expect((await backend.getShortLink("limited"))!.remainingClicks).toBe(2);
+
+    const results = await Promise.all([
+        backend.consumeClick("limited"),
+        backend.consumeClick("limited"),
+        backend.consumeClick("limited"),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(2);
+    expect((await backend.getShortLink("limited"))!.remainingClicks).toBe(0);
+    expect(await backend.getTargetUrl("limited")).toBeNull();
+    expect(await backend.consumeClick("aB0")).toBeFalse();
+    expect((await backend.getShortLink("aB0"))!.remainingClicks).toBeNull();
+});
+
+test("clean expired links in batches", async () => {
+    const expiresAt = new Date(Date.now() - 60_000);
+    await backend.createShortLinks([1, 2, 3].map(i => ({ shortId: `batchExpired${i}`, targetUrl: "https://poto.nz", attributes: { expiresAt } })));
+
+    expect(await backend.cleanExpiredLinks(2)).toHaveLength(2);
+    expect(await backend.cleanExpiredLinks(2)).toHaveLength(1);
+    expect(await backend.cleanExpiredLinks(2)).toHaveLength(0);
+});
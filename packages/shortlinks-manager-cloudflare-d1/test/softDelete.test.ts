@@ -0,0 +1,122 @@
+import { CACHED_MISS, createManager, LruCache, ShortIdConflictError } from "@potonz/shortlinks-manager";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, type IShortLinksManagerD1Backend } from "src";
+
+let mf: Miniflare;
+let db: D1Database;
+let backend: IShortLinksManagerD1Backend;
+
+async function createUnusedLink(shortId: string) {
+    await backend.createShortLink(shortId, `https://poto.nz/${shortId}`);
+    await db.prepare("UPDATE sl_links_map SET last_accessed_at = datetime(CURRENT_TIMESTAMP, '-60 days') WHERE short_id = ?")
+        .bind(shortId)
+        .run();
+}
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    db = await mf.getD1Database("DB");
+    backend = createD1Backend(db, { softDelete: true, quarantineDays: 30 });
+    await backend.setupTables();
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("archive swept links instead of deleting them", async () => {
+    await createUnusedLink("archived");
+    await backend.createShortLink("expiredArchived", "https://poto.nz/expired", { expiresAt: new Date(Date.now() - 60_000) });
+
+    expect(await backend.cleanUnusedLinks(30)).toEqual(["archived"]);
+    expect(await backend.cleanExpiredLinks()).toEqual(["expiredArchived"]);
+    // Already archived links are not swept again
+    expect(await backend.cleanUnusedLinks(30)).toEqual([]);
+
+    expect(await backend.getTargetUrl("archived")).toBeNull();
+    expect(await backend.getShortLink("archived")).toBeNull();
+    expect(await backend.updateTargetUrl("archived", "https://poto.nz/new")).toBeFalse();
+    expect((await backend.listShortLinks()).links.map(link => link.shortId)).not.toContain("archived");
+
+    const archivedPage = await backend.listShortLinks({ archived: true });
+    expect(archivedPage.links.map(link => link.shortId).sort()).toEqual(["archived", "expiredArchived"]);
+    expect(archivedPage.links[0]!.archivedAt).toBeInstanceOf(Date);
+});
+
+test("keep archived short ids out of reuse", async () => {
+    await createUnusedLink("quarantined");
+    await backend.cleanUnusedLinks(30);
+
+    expect(await backend.checkShortIdsExist(["quarantined"])).toEqual(["quarantined"]);
+    await expect(backend.createShortLink("quarantined", "https://poto.nz/other")).rejects.toBeInstanceOf(ShortIdConflictError);
+});
+
+test("restore archived links", async () => {
+    await createUnusedLink("restored");
+    await backend.cleanUnusedLinks(30);
+
+    expect(await backend.restoreShortLink("restored")).toBeTrue();
+    expect(await backend.restoreShortLink("restored")).toBeFalse();
+    expect(await backend.getTargetUrl("restored")).toBe("https://poto.nz/restored");
+
+    // Restored links count as accessed
+    expect(await backend.cleanUnusedLinks(30)).toEqual([]);
+});
+
+test("purge archived links after the quarantine period", async () => {
+    await createUnusedLink("purged");
+    await createUnusedLink("recent");
+    await backend.cleanUnusedLinks(30);
+    await db.prepare("UPDATE sl_links_map SET archived_at = datetime(CURRENT_TIMESTAMP, '-31 days') WHERE short_id = ?")
+        .bind("purged")
+        .run();
+
+    expect(await backend.purgeArchivedLinks()).toEqual(["purged"]);
+    expect(await backend.checkShortIdsExist(["purged", "recent"])).toEqual(["recent"]);
+});
+
+test("delete swept links without soft delete", async () => {
+    const hardBackend = createD1Backend(db);
+    await createUnusedLink("hardDeleted");
+
+    expect(await hardBackend.cleanUnusedLinks(30)).toEqual(["hardDeleted"]);
+    expect(await hardBackend.checkShortIdsExist(["hardDeleted"])).toEqual([]);
+});
+
+test("restore through the manager clears cached misses", async () => {
+    await createUnusedLink("managerRestored");
+    await backend.cleanUnusedLinks(30);
+
+    const cache = new LruCache();
+    const manager = await createManager({
+        backend,
+        caches: [cache],
+        shortIdLength: 6,
+        onShortIdLengthUpdated: () => {},
+        options: {
+            negativeCacheTtl: 60,
+        },
+    });
+
+    expect(await manager.getTargetUrl("managerRestored")).toBeNull();
+    expect(cache.get("sl_:managerRestored")).toBe(CACHED_MISS);
+
+    expect(await manager.restoreShortLink("managerRestored")).toBeTrue();
+    expect(await manager.getTargetUrl("managerRestored")).toBe("https://poto.nz/managerRestored");
+});
@@ -0,0 +1,104 @@
+import { BackendUnavailableError, createManager, LruCache } from "@potonz/shortlinks-manager";
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import { Miniflare } from "miniflare";
+import { createD1Backend, type IShortLinksManagerD1Backend } from "src";
+
+let mf: Miniflare;
+let db: D1Database;
+let brandA: IShortLinksManagerD1Backend;
+let brandB: IShortLinksManagerD1Backend;
+
+beforeAll(async () => {
+    mf = new Miniflare({
+        modules: true,
+        script: `
+export default {
+    async fetch(request, env, ctx) {
+        return new Response("Hello Miniflare!");
+    }
+}
+`,
+        d1Databases: {
+            DB: "018648ab-e976-4825-847e-91c9293f2137",
+        },
+    });
+
+    await mf.ready;
+
+    db = await mf.getD1Database("DB");
+    brandA = createD1Backend(db, { tablePrefix: "brand_a_" });
+    brandB = createD1Backend(db, { tablePrefix: "brand_b_" });
+    await brandA.setupTables();
+    await brandB.setupTables();
+});
+
+afterAll(async () => {
+    await mf.dispose();
+});
+
+test("create prefixed tables", async () => {
+    const tables = await db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'brand_%' ORDER BY name").all<{ name: string }>();
+
+    expect(tables.results.map(r => r.name)).toEqual([
+        "brand_a_link_visits",
+        "brand_a_links_map",
+        "brand_a_rate_limits",
+        "brand_a_schema_version",
+        "brand_a_settings",
+        "brand_b_link_visits",
+        "brand_b_links_map",
+        "brand_b_rate_limits",
+        "brand_b_schema_version",
+        "brand_b_settings",
+    ]);
+});
+
+test("keep links of each prefix apart", async () => {
+    await brandA.createShortLink("same", "https://a.poto.nz");
+    await brandB.createShortLink("same", "https://b.poto.nz");
+    await brandA.recordVisit({ shortId: "same", timestamp: new Date() });
+
+    expect(await brandA.getTargetUrl("same")).toBe("https://a.poto.nz");
+    expect(await brandB.getTargetUrl("same")).toBe("https://b.poto.nz");
+    expect(await brandA.getTotalClicks("same")).toBe(1);
+    expect(await brandB.getTotalClicks("same")).toBe(0);
+
+    await brandA.deleteShortLink("same");
+    expect(await brandA.checkShortIdsExist(["same"])).toEqual([]);
+    expect(await brandB.checkShortIdsExist(["same"])).toEqual(["same"]);
+});
+
+test("scope cache keys by the prefix", () => {
+    expect(brandA.cacheKeyPrefix).toBe("brand_a_");
+    expect(createD1Backend(db).cacheKeyPrefix).toBe("sl_");
+});
+
+test("keep the links of prefixes apart in a shared cache", async () => {
+    const defaultBackend = createD1Backend(db);
+    await defaultBackend.setupTables();
+
+    const cache = new LruCache();
+    const defaultManager = await createManager({ backend: defaultBackend, caches: [cache], shortIdLength: 6 });
+    const brandAManager = await createManager({ backend: brandA, caches: [cache], shortIdLength: 6 });
+
+    await brandA.createShortLink("promo", "https://a.poto.nz/promo");
+    // The default prefix joined onto this ID used to give the same key as "promo" of brand_a_
+    await defaultManager.createShortLink("https://evil.example", { shortId: "brand_a_promo" });
+
+    expect(await brandAManager.getTargetUrl("promo")).toBe("https://a.poto.nz/promo");
+    expect(await defaultManager.getTargetUrl("brand_a_promo")).toBe("https://evil.example");
+});
+
+test("reject invalid prefixes", () => {
+    expect(() => createD1Backend(db, { tablePrefix: "a; DROP TABLE x; --" })).toThrow("Invalid table prefix");
+    expect(() => createD1Backend(db, { tablePrefix: "" })).toThrow("Invalid table prefix");
+});
+
+test("wrap D1 errors and keep them as the cause", async () => {
+    const missing = createD1Backend(db, { tablePrefix: "missing_" });
+    const error = await Promise.resolve(missing.getTargetUrl("abc")).catch(err => err);
+
+    expect(error).toBeInstanceOf(BackendUnavailableError);
+    expect(error.code).toBe("BACKEND_UNAVAILABLE");
+    expect(error.cause.message).toContain("no such table");
+});
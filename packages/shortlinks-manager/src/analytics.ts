@@ -0,0 +1,29 @@
+/**
+ * Information about the client resolving a short link
+ */
+export interface IVisitContext {
+    referrer?: string | null;
+    userAgent?: string | null;
+    /**
+     * Country code of the client, e.g. `request.cf.country` in Cloudflare Workers
+     */
+    country?: string | null;
+    /**
+     * Any extra data to record with the visit
+     */
+    metadata?: Record<string, unknown>;
+}
+
+export interface IVisitEvent extends IVisitContext {
+    shortId: string;
+    timestamp: Date;
+}
+
+export interface IShortLinksAnalytics {
+    /**
+     * Record a visit to a short link.
+     * Called every time a short link is resolved by {@link IShortLinksManager#getTargetUrl()}
+     * @param event
+     */
+    recordVisit(event: IVisitEvent): unknown | Promise<unknown>;
+}
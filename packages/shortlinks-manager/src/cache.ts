@@ -1,12 +1,23 @@
+/**
+ * Returned by {@link ICache#get} when the short ID is known not to exist
+ */
+export const CACHED_MISS = Symbol("CACHED_MISS");
+
 export interface ICache {
     initialised?: boolean;
+    /**
+     * Object identifying the storage behind the cache, e.g. a KV namespace.
+     * Failures of caches with the same identity put all of them on cool-down,
+     * so caches created for every request still skip a failing storage. Defaults to the cache itself
+     */
+    readonly identity?: object;
     init?: () => (unknown | Promise<unknown>);
     /**
      * Get the target URL using the provided shortId
      * @param shortId
-     * @returns string if a target URL is found, null otherwise
+     * @returns string if a target URL is found, {@link CACHED_MISS} if a miss was cached with {@link setMiss}, null otherwise
      */
-    get: (shortId: string) => (string | null | Promise<string | null>);
+    get: (shortId: string) => (string | typeof CACHED_MISS | null | Promise<string | typeof CACHED_MISS | null>);
     /**
      * Cache the target URL
      * @param shortId
@@ -18,4 +29,12 @@ export interface ICache {
      * @param shortId
      */
     delete?: (shortId: string) => (void | Promise<void>);
+    /**
+     * Remember that the short ID does not exist, so {@link get} returns {@link CACHED_MISS}.
+     * Caches implementing this must implement {@link delete} as well
+     * so the miss can be cleared when the short ID is created
+     * @param shortId
+     * @param ttl number of seconds to remember the miss
+     */
+    setMiss?: (shortId: string, ttl: number) => (void | Promise<void>);
 }
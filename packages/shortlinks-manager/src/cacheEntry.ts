@@ -0,0 +1,45 @@
+/**
+ * What the manager stores in an {@link ICache} for a short ID.
+ *
+ * Caches only deal with strings, so entries with extra properties are stored as JSON.
+ * Plain links are stored as the target URL itself to stay readable by other consumers.
+ */
+export interface ICacheEntry {
+    /**
+     * Not stored for password protected links
+     */
+    targetUrl?: string;
+    /**
+     * Unix timestamp in milliseconds after which the link no longer resolves
+     */
+    expiresAt?: number;
+    /**
+     * The link requires a password, see {@link IShortLinksManager#resolveProtectedLink()}
+     */
+    isProtected?: boolean;
+}
+
+export function serialiseCacheEntry(entry: ICacheEntry): string {
+    if (entry.targetUrl !== undefined && entry.expiresAt === undefined && !entry.isProtected) {
+        return entry.targetUrl;
+    }
+
+    return JSON.stringify(entry);
+}
+
+export function parseCacheEntry(value: string): ICacheEntry {
+    if (value.startsWith("{")) {
+        try {
+            return JSON.parse(value) as ICacheEntry;
+        }
+        catch {
+            // Not an entry written by the manager, fallback to a plain URL
+        }
+    }
+
+    return { targetUrl: value };
+}
+
+export function isCacheEntryExpired(entry: ICacheEntry, now = Date.now()): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
@@ -0,0 +1,162 @@
+/**
+ * Base of all errors thrown by the manager and backends, check {@link code} instead of the message
+ */
+export abstract class ShortLinksError extends Error {
+    abstract readonly code: string;
+}
+
+/**
+ * Thrown when a requested short ID is already used by another link
+ */
+export class ShortIdConflictError extends ShortLinksError {
+    readonly code = "SHORT_ID_CONFLICT";
+
+    constructor(readonly shortId: string, options?: ErrorOptions) {
+        super(`Short ID "${shortId}" is already taken`, options);
+        this.name = "ShortIdConflictError";
+    }
+}
+
+/**
+ * Thrown when no short ID is left to generate, even after increasing the length
+ */
+export class ShortIdExhaustedError extends ShortLinksError {
+    readonly code = "SHORT_ID_EXHAUSTED";
+
+    constructor(options?: ErrorOptions) {
+        super("Unable to create a shortlink, potentially ran out", options);
+        this.name = "ShortIdExhaustedError";
+    }
+}
+
+/**
+ * Thrown when an input or option is not valid, e.g. a negative click limit
+ */
+export class ValidationError extends ShortLinksError {
+    readonly code: string = "VALIDATION_ERROR";
+
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = "ValidationError";
+    }
+}
+
+export type InvalidShortIdReason = "length" | "characters" | "reserved";
+
+/**
+ * Thrown when a custom short ID does not pass validation
+ */
+export class InvalidShortIdError extends ValidationError {
+    override readonly code = "INVALID_SHORT_ID";
+
+    constructor(readonly shortId: string, readonly reason: InvalidShortIdReason, message: string) {
+        super(message);
+        this.name = "InvalidShortIdError";
+    }
+}
+
+export type InvalidTargetUrlReason = "invalid_url" | "protocol" | "length" | "domain_not_allowed" | "domain_denied" | "self_reference" | "custom";
+
+/**
+ * Thrown when a target URL is rejected by the validation rules
+ */
+export class InvalidTargetUrlError extends ValidationError {
+    override readonly code = "INVALID_TARGET_URL";
+
+    constructor(readonly targetUrl: string, readonly reason: InvalidTargetUrlReason, message: string) {
+        super(message);
+        this.name = "InvalidTargetUrlError";
+    }
+}
+
+/**
+ * Thrown when a feature is used with a backend that does not implement it
+ */
+export class UnsupportedFeatureError extends ShortLinksError {
+    readonly code = "UNSUPPORTED_FEATURE";
+
+    constructor(message: string) {
+        super(message);
+        this.name = "UnsupportedFeatureError";
+    }
+}
+
+/**
+ * Thrown when the backend fails, e.g. the database cannot be reached. The original error is the `cause`
+ */
+export class BackendUnavailableError extends ShortLinksError {
+    readonly code = "BACKEND_UNAVAILABLE";
+
+    constructor(options?: ErrorOptions) {
+        super(`The backend failed: ${getMessage(options?.cause)}`, options);
+        this.name = "BackendUnavailableError";
+    }
+}
+
+/**
+ * Thrown when a cache fails. The original error is the `cause`
+ */
+export class CacheError extends ShortLinksError {
+    readonly code = "CACHE_ERROR";
+
+    constructor(options?: ErrorOptions) {
+        super(`The cache failed: ${getMessage(options?.cause)}`, options);
+        this.name = "CacheError";
+    }
+}
+
+/**
+ * Thrown when a caller created more links than allowed by a rate limiter
+ */
+export class RateLimitExceededError extends ShortLinksError {
+    readonly code = "RATE_LIMIT_EXCEEDED";
+
+    /**
+     * @param key the rate limited caller, `global` for the limit shared by all callers
+     * @param retryAfter number of seconds until the caller can create links again
+     */
+    constructor(readonly key: string, readonly retryAfter: number) {
+        super(`Rate limit exceeded, retry after ${retryAfter} seconds`);
+        this.name = "RateLimitExceededError";
+    }
+}
+
+function getMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Wrap the methods of the object so errors thrown or rejected by them are converted,
+ * errors that are already a {@link ShortLinksError} are kept as they are
+ * @param target e.g. a backend
+ * @param createError creates the error wrapping the original one, e.g. `cause => new BackendUnavailableError({ cause })`
+ */
+export function wrapErrors<T extends object>(target: T, createError: (cause: unknown) => ShortLinksError): T {
+    function convert(err: unknown): unknown {
+        return err instanceof ShortLinksError ? err : createError(err);
+    }
+
+    // A proxy reads the methods on every call, so methods replaced later, e.g. by test spies, are wrapped too
+    return new Proxy(target, {
+        get(obj, key, receiver) {
+            const value: unknown = Reflect.get(obj, key, receiver);
+            if (typeof value !== "function") {
+                return value;
+            }
+
+            return (...args: unknown[]) => {
+                try {
+                    const result: unknown = value.apply(obj, args);
+                    return result instanceof Promise
+                        ? result.catch((err: unknown) => {
+                            throw convert(err);
+                        })
+                        : result;
+                }
+                catch (err) {
+                    throw convert(err);
+                }
+            };
+        },
+    });
+}
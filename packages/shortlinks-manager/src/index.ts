@@ -1,2 +1,10 @@
+export * from "./analytics";
 export * from "./cache";
+export * from "./errors";
+export * from "./lruCache";
 export * from "./manager";
+export * from "./password";
+export * from "./rateLimit";
+export * from "./shortIds";
+export * from "./url";
+export * from "./validation";
@@ -0,0 +1,117 @@
+import { CACHED_MISS, type ICache } from "./cache";
+import { ValidationError } from "./errors";
+
+export interface ILruCacheOptions {
+    /**
+     * Maximum number of entries, the least recently used ones are evicted first.
+     * Defaults to `1000`
+     */
+    maxEntries?: number;
+    /**
+     * Number of seconds an entry is kept. Defaults to never expiring
+     */
+    ttl?: number;
+}
+
+export interface ILruCacheStats {
+    hits: number;
+    misses: number;
+    /**
+     * Number of entries removed to make room for new ones
+     */
+    evictions: number;
+    size: number;
+}
+
+interface ILruCacheEntry {
+    value: string | typeof CACHED_MISS;
+    /**
+     * Unix timestamp in milliseconds, null if the entry never expires
+     */
+    expiresAt: number | null;
+}
+
+/**
+ * In-memory cache keeping the most recently used links,
+ * e.g. a per-isolate hot cache in front of slower caches
+ */
+export class LruCache implements ICache {
+    private readonly maxEntries: number;
+    private readonly ttl: number | undefined;
+    // Map keeps insertion order, the first entry is the least recently used
+    private readonly entries = new Map<string, ILruCacheEntry>();
+
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(options: ILruCacheOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 1000;
+        this.ttl = options.ttl;
+
+        if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+            throw new ValidationError("maxEntries must be a positive integer");
+        }
+    }
+
+    get(shortId: string): string | typeof CACHED_MISS | null {
+        const entry = this.entries.get(shortId);
+
+        if (!entry || (entry.expiresAt !== null && entry.expiresAt <= Date.now())) {
+            this.entries.delete(shortId);
+            ++this.misses;
+            return null;
+        }
+
+        // Move to the end to mark it as the most recently used
+        this.entries.delete(shortId);
+        this.entries.set(shortId, entry);
+        ++this.hits;
+
+        return entry.value;
+    }
+
+    /**
+     * @param shortId
+     * @param targetUrl
+     * @param ttl number of seconds to keep this entry, overriding {@link ILruCacheOptions#ttl}
+     */
+    set(shortId: string, targetUrl: string, ttl = this.ttl): void {
+        this.store(shortId, targetUrl, ttl);
+    }
+
+    setMiss(shortId: string, ttl: number): void {
+        this.store(shortId, CACHED_MISS, ttl);
+    }
+
+    delete(shortId: string): void {
+        this.entries.delete(shortId);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    getStats(): ILruCacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            size: this.entries.size,
+        };
+    }
+
+    private store(shortId: string, value: string | typeof CACHED_MISS, ttl: number | undefined) {
+        this.entries.delete(shortId);
+        this.entries.set(shortId, {
+            value,
+            expiresAt: ttl !== undefined ? Date.now() + ttl * 1000 : null,
+        });
+
+        while (this.entries.size > this.maxEntries) {
+            const leastRecentlyUsed = this.entries.keys().next().value!;
+            this.entries.delete(leastRecentlyUsed);
+            ++this.evictions;
+        }
+    }
+}
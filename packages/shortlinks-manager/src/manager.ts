@@ -1,29 +1,205 @@
-import type { ICache } from "./cache";
+import type { IShortLinksAnalytics, IVisitContext } from "./analytics";
+import { CACHED_MISS, type ICache } from "./cache";
+import { type ICacheEntry, isCacheEntryExpired, parseCacheEntry, serialiseCacheEntry } from "./cacheEntry";
+import {
+    BackendUnavailableError,
+    CacheError,
+    RateLimitExceededError,
+    ShortIdConflictError,
+    ShortIdExhaustedError,
+    type ShortLinksError,
+    UnsupportedFeatureError,
+    ValidationError,
+    wrapErrors,
+} from "./errors";
+import { hashPassword, verifyPassword } from "./password";
+import type { IRateLimiter } from "./rateLimit";
+import { BASE62_ALPHABET, type IShortIdGenerator } from "./shortIds";
+import { normaliseUrl } from "./url";
 import { generateUniqueShortIds } from "./utils";
+import { type ICustomShortIdOptions, type ITargetUrlValidationOptions, validateCustomShortId, validateTargetUrl } from "./validation";
+
+export interface IShortLink {
+    shortId: string;
+    targetUrl: string;
+    /**
+     * When the link stops resolving, null if it never expires
+     */
+    expiresAt: Date | null;
+    createdAt?: Date;
+    lastAccessedAt?: Date | null;
+    /**
+     * Hash of the password required to resolve the link, null if not protected
+     */
+    passwordHash?: string | null;
+    /**
+     * Number of times the link can still be resolved, null if unlimited
+     */
+    remainingClicks?: number | null;
+    /**
+     * When the link was archived by a cleanup, null if it is active
+     */
+    archivedAt?: Date | null;
+    /**
+     * User the link belongs to, null if it has no owner
+     */
+    ownerId?: string | null;
+}
+
+export interface IListShortLinksOptions {
+    /**
+     * Maximum number of links to return, a positive integer. Defaults to 50.
+     * Backends may return fewer, the D1 backend returns at most 1000
+     */
+    limit?: number;
+    /**
+     * {@link IShortLinksPage#nextCursor} of the previous page
+     */
+    cursor?: string | null;
+    /**
+     * Defaults to `createdAt`
+     */
+    sortBy?: "createdAt" | "lastAccessedAt";
+    /**
+     * Defaults to `desc`
+     */
+    order?: "asc" | "desc";
+    /**
+     * Only include links whose target URL contains this string
+     */
+    targetUrlContains?: string;
+    /**
+     * Only include links whose target URL host is this domain or one of its subdomains,
+     * e.g. `poto.nz` also matches `www.poto.nz`
+     */
+    domain?: string;
+    createdAfter?: Date;
+    createdBefore?: Date;
+    accessedAfter?: Date;
+    accessedBefore?: Date;
+    /**
+     * List archived links instead of active ones, e.g. to pick links to restore. Defaults to `false`
+     */
+    archived?: boolean;
+    /**
+     * Only include links of this owner, e.g. to show the links of the signed in user
+     */
+    ownerId?: string;
+}
+
+export interface IShortLinksPage {
+    links: IShortLink[];
+    /**
+     * Pass to {@link IListShortLinksOptions#cursor} to get the next page, null if this is the last page
+     */
+    nextCursor: string | null;
+}
+
+/**
+ * Extra properties stored alongside a short link
+ */
+export interface IShortLinkAttributes {
+    /**
+     * When the link stops resolving, null if it never expires
+     */
+    expiresAt?: Date | null;
+    /**
+     * Hash created by {@link hashPassword}, null if the link is not protected
+     */
+    passwordHash?: string | null;
+    /**
+     * Number of times the link can be resolved, null if unlimited
+     */
+    maxClicks?: number | null;
+    /**
+     * User the link belongs to, null if it has no owner
+     */
+    ownerId?: string | null;
+}
+
+export interface INewShortLink {
+    shortId: string;
+    targetUrl: string;
+    attributes?: IShortLinkAttributes;
+}
 
 export interface IShortLinksManagerBackend {
+    /**
+     * Scopes cache keys as `<prefix>:<shortId>`, so links of backends sharing the same cache do not collide.
+     * Must not contain `:`. Leaving it unset is only safe when the cache is not shared with another backend
+     */
+    readonly cacheKeyPrefix?: string;
     /**
      * Initialise any logic before the manager can do its thing. E.g. setting up tables.
      * Run once when {@link createManager} is called
      */
     init?: () => unknown;
     /**
-     * Get target URL for the given short ID
+     * Get target URL for the given short ID.
+     * Password protected links must not be returned
      * @param {string} shortId
      * @returns the short ID or null if not found
      */
     getTargetUrl(shortId: string): string | null | Promise<string | null>;
     /**
-     * Create a short link map with the given short ID and target URL
+     * Get the short link with its attributes, including expired links.
+     * Backends supporting link expiry or password protection must implement this,
+     * otherwise the manager falls back to {@link getTargetUrl} and links never expire
+     * @param {string} shortId
+     * @returns the short link or null if not found
+     */
+    getShortLink?(shortId: string): IShortLink | null | Promise<IShortLink | null>;
+    /**
+     * Create a short link map with the given short ID and target URL.
+     * Must fail atomically if the short ID is taken, the manager retries generated short IDs on conflict
      * @param {string} shortId
      * @param {string} targetUrl
+     * @param attributes
+     * @throws ShortIdConflictError if the short ID already exists
      */
-    createShortLink(shortId: string, targetUrl: string): void | Promise<void>;
+    createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): void | Promise<void>;
+    /**
+     * Create many short links at once, e.g. in a single transaction.
+     * Links with a short ID that already exists must be skipped instead of failing the others.
+     * The manager falls back to {@link createShortLink} for each link if not implemented
+     * @param links
+     * @returns the short IDs that have been created
+     */
+    createShortLinks?(links: INewShortLink[]): string[] | Promise<string[]>;
     /**
      * Check the provided list of short IDs and return the ones that already exist.
      * @param {string[]} shortIds
      */
     checkShortIdsExist(shortIds: string[]): string[] | Promise<string[]>;
+    /**
+     * Find a short ID without expiry, password, click limit or owner pointing to the target URL.
+     * URLs should be compared in their normalised form, see {@link normaliseUrl}.
+     * Required for {@link IManagerProps#options#reuseExistingForSameTarget}
+     * @param {string} targetUrl
+     * @returns the short ID or null if not found
+     */
+    findShortIdByTargetUrl?(targetUrl: string): string | null | Promise<string | null>;
+    /**
+     * Point an existing short ID to a new target URL
+     * @param {string} shortId
+     * @param {string} targetUrl
+     * @returns true if updated, false if the short ID does not exist
+     */
+    updateTargetUrl(shortId: string, targetUrl: string): boolean | Promise<boolean>;
+    /**
+     * Remove the short link
+     * @param {string} shortId
+     * @returns true if deleted, false if the short ID does not exist
+     */
+    deleteShortLink(shortId: string): boolean | Promise<boolean>;
+    /**
+     * Use one of the remaining clicks of a link with a click limit.
+     * Must be atomic so concurrent resolutions cannot exceed the limit.
+     * Required to create links with {@link ICreateShortLinkOptions#maxClicks}
+     * @param shortId
+     * @returns true if a click was left, false if the link ran out of clicks
+     */
+    consumeClick?(shortId: string): boolean | Promise<boolean>;
     /**
      * Update last accessed time to current timestamp
      * @param shortId
@@ -33,9 +209,75 @@ export interface IShortLinksManagerBackend {
     /**
      * Remove unused links that are older than the given maxAge
      * @param maxAge number of days the record should be kept
+     * @param limit maximum number of links to remove, all if not set
+     * @returns an array of short IDs that have been cleaned
+     */
+    cleanUnusedLinks(maxAge: number, limit?: number): string[] | Promise<string[]>;
+    /**
+     * Remove links that have passed their expiry time
+     * @param limit maximum number of links to remove, all if not set
      * @returns an array of short IDs that have been cleaned
      */
-    cleanUnusedLinks(maxAge: number): string[] | Promise<string[]>;
+    cleanExpiredLinks?(limit?: number): string[] | Promise<string[]>;
+    /**
+     * Bring back a link archived by a cleanup so it resolves again.
+     * Backends archiving links instead of deleting them should implement this
+     * @param shortId
+     * @returns true if restored, false if the short ID is not archived
+     */
+    restoreShortLink?(shortId: string): boolean | Promise<boolean>;
+    /**
+     * Permanently remove archived links past their quarantine period, freeing their short IDs
+     * @param limit maximum number of links to remove, all if not set
+     * @returns an array of short IDs that have been removed
+     */
+    purgeArchivedLinks?(limit?: number): string[] | Promise<string[]>;
+    /**
+     * List short links page by page
+     * @param options
+     */
+    listShortLinks?(options?: IListShortLinksOptions): IShortLinksPage | Promise<IShortLinksPage>;
+    /**
+     * Point a short ID to a new target URL only if it belongs to the owner.
+     * Backends storing {@link IShortLinkAttributes#ownerId} must implement all owner-scoped methods,
+     * and filter {@link listShortLinks} by {@link IListShortLinksOptions#ownerId}
+     * @param ownerId
+     * @param shortId
+     * @param targetUrl
+     * @returns true if updated, false if the short ID does not exist or belongs to someone else
+     */
+    updateOwnedTargetUrl?(ownerId: string, shortId: string, targetUrl: string): boolean | Promise<boolean>;
+    /**
+     * Remove the short link only if it belongs to the owner
+     * @param ownerId
+     * @param shortId
+     * @returns true if deleted, false if the short ID does not exist or belongs to someone else
+     */
+    deleteOwnedShortLink?(ownerId: string, shortId: string): boolean | Promise<boolean>;
+    /**
+     * Count the active links of the owner, e.g. to enforce quotas
+     * @param ownerId
+     */
+    countShortLinksByOwner?(ownerId: string): number | Promise<number>;
+    /**
+     * Get the stored length of generated short IDs, shared by all managers using the backend
+     * @returns the length or null if not stored yet
+     */
+    getShortIdLength?(): number | null | Promise<number | null>;
+    /**
+     * Atomically increase the stored length of generated short IDs to at least `fromLength + 1`.
+     * Instances growing the same length at the same time must end up with the same length
+     * @param fromLength the length that ran out of IDs
+     * @returns the stored length
+     */
+    increaseShortIdLength?(fromLength: number): number | Promise<number>;
+    /**
+     * Count the short IDs of the given length, including archived links.
+     * May return a recent count instead of scanning all links on every call.
+     * Required for {@link IManagerProps#options#keyspaceGrowthThreshold}
+     * @param length
+     */
+    countShortIdsOfLength?(length: number): number | Promise<number>;
 }
 
 interface IManagerProps {
@@ -46,8 +288,22 @@ interface IManagerProps {
      * Default to no cache
      */
     caches?: ICache[];
+    /**
+     * Length of generated short IDs. The length stored by backends implementing
+     * {@link IShortLinksManagerBackend#getShortIdLength} is used instead if longer
+     */
     shortIdLength: number;
-    onShortIdLengthUpdated: (newLength: number) => unknown;
+    /**
+     * Called when the length of generated short IDs increases, e.g. to store it for the next manager.
+     * Not needed with backends storing the length themselves
+     * @param newLength
+     */
+    onShortIdLengthUpdated?: (newLength: number) => unknown;
+    /**
+     * Strategy creating new short IDs, e.g. {@link createRandomShortIdGenerator} with a custom alphabet.
+     * Defaults to random base62 IDs using `crypto.getRandomValues`
+     */
+    shortIdGenerator?: IShortIdGenerator;
     /**
      * A special function to queue the {@link promise}.
      *
@@ -60,6 +316,28 @@ interface IManagerProps {
      * @param promise
      */
     waitUntil?: (promise: Promise<unknown>) => void;
+    /**
+     * Record a visit event every time a short link is resolved.
+     * Queued with {@link waitUntil} if provided.
+     * Default to no analytics
+     */
+    analytics?: IShortLinksAnalytics;
+    /**
+     * Limit the number of links created with {@link IShortLinksManager#createShortLink()}
+     * and {@link IShortLinksManager#createShortLinks()}.
+     * Default to no limits
+     */
+    rateLimit?: {
+        /**
+         * Limit applied to each caller, keyed by {@link ICreateShortLinkOptions#callerId}
+         * or {@link ICreateShortLinkOptions#ownerId}. Calls without either are only counted by {@link global}
+         */
+        perCaller?: IRateLimiter;
+        /**
+         * Limit shared by all callers
+         */
+        global?: IRateLimiter;
+    };
     options?: {
         /**
          * Whether to update the backend with last access time
@@ -68,89 +346,890 @@ interface IManagerProps {
          * Defaults to `true`
          */
         shouldUpdateLastAccessOnGet?: boolean;
+        /**
+         * Rules for short IDs requested through {@link ICreateShortLinkOptions#shortId}
+         */
+        customShortId?: ICustomShortIdOptions;
+        /**
+         * Return the existing short ID when creating a link to a target URL that already has one,
+         * instead of creating a new one. Only applies to links without a custom short ID, expiry, password, click limit or owner.
+         * Requires the backend to implement {@link IShortLinksManagerBackend#findShortIdByTargetUrl}.
+         * Defaults to `false`
+         */
+        reuseExistingForSameTarget?: boolean;
+        /**
+         * Rules for target URLs when creating or updating links.
+         * Defaults to only allowing `http:` and `https:` URLs, set to `false` to accept any string
+         */
+        targetUrlValidation?: ITargetUrlValidationOptions | false;
+        /**
+         * Number of seconds to remember short IDs that were not found,
+         * in caches implementing {@link ICache#setMiss}, so repeated lookups do not reach the backend.
+         * Defaults to not caching misses
+         */
+        negativeCacheTtl?: number;
+        /**
+         * Increase the length of generated short IDs once this share of the IDs of the current length is taken,
+         * e.g. `0.5`, instead of waiting for generated IDs to collide.
+         * Checked before the first generated ID of each manager.
+         * Requires the backend to implement {@link IShortLinksManagerBackend#countShortIdsOfLength}.
+         * Defaults to only growing on collisions
+         */
+        keyspaceGrowthThreshold?: number;
+        /**
+         * Number of seconds a cache is skipped after it failed, so an outage does not slow down every call.
+         * Links changed in the meantime are still removed from or rewritten in the cache. Defaults to `30`
+         */
+        cacheCooldown?: number;
+        /**
+         * Called when a cache fails, e.g. to log the error. Cache failures never fail the call,
+         * the cache is skipped instead. Defaults to ignoring the errors
+         * @param error wraps the original error as `cause`
+         * @param cache the cache that failed
+         */
+        onCacheError?: (error: CacheError, cache: ICache) => unknown;
+        /**
+         * Called when recording a visit with the analytics fails, e.g. to log the error.
+         * Visits are recorded on a best-effort basis, a failure never fails the redirect. Defaults to ignoring the errors
+         * @param error wraps the original error as `cause`
+         */
+        onAnalyticsError?: (error: ShortLinksError) => unknown;
     };
 }
 
+export interface ICreateShortLinkOptions {
+    /**
+     * Use this short ID instead of generating a random one, e.g. `summer-sale`
+     */
+    shortId?: string;
+    /**
+     * Date or Unix timestamp in milliseconds after which the link no longer resolves, must be in the future.
+     * Requires the backend to implement {@link IShortLinksManagerBackend#getShortLink}, like {@link ttl}
+     */
+    expiresAt?: Date | number;
+    /**
+     * Number of seconds the link resolves for, must be positive. Ignored if {@link expiresAt} is provided
+     */
+    ttl?: number;
+    /**
+     * Require this password to resolve the link with {@link IShortLinksManager#resolveProtectedLink()}.
+     * Only a salted hash is stored. Requires the backend to implement {@link IShortLinksManagerBackend#getShortLink}
+     */
+    password?: string;
+    /**
+     * Number of times the link resolves, e.g. `1` for a one-time link.
+     * Links with a click limit are never cached.
+     * Requires the backend to implement {@link IShortLinksManagerBackend#consumeClick} and {@link IShortLinksManagerBackend#getShortLink}
+     */
+    maxClicks?: number;
+    /**
+     * User the link belongs to, e.g. to list and manage the links of the signed in user.
+     * Requires the backend to implement the owner-scoped methods, e.g. {@link IShortLinksManagerBackend#updateOwnedTargetUrl}
+     */
+    ownerId?: string;
+    /**
+     * Identity of the caller used for rate limiting, e.g. the client IP address. Defaults to {@link ownerId}
+     */
+    callerId?: string;
+}
+
+export interface IBulkCreateSuccess {
+    targetUrl: string;
+    success: true;
+    shortId: string;
+}
+
+export interface IBulkCreateFailure {
+    targetUrl: string;
+    success: false;
+    error: Error;
+}
+
+export type BulkCreateResult = IBulkCreateSuccess | IBulkCreateFailure;
+
+export interface ICleanupOptions {
+    /**
+     * Remove links not accessed for this number of days. Unused links are kept if not set
+     */
+    maxAge?: number;
+    /**
+     * Remove links that have passed their expiry time. Defaults to `true`
+     */
+    expired?: boolean;
+    /**
+     * Maximum number of links removed by a single backend call. Defaults to `500`
+     */
+    batchSize?: number;
+    /**
+     * Maximum number of backend calls, to stay within the time limits of a run. Defaults to `20`
+     */
+    maxBatches?: number;
+}
+
+export interface ICleanupResult {
+    unusedLinks: number;
+    expiredLinks: number;
+    /**
+     * Archived links removed after their quarantine period
+     */
+    purgedLinks: number;
+    /**
+     * Whether the run stopped at {@link ICleanupOptions#maxBatches} with links possibly left to remove
+     */
+    hasMore: boolean;
+}
+
 export interface IShortLinksManager {
     /**
      * Generate a short ID linking to the target URL
      * @param {string} targetUrl targetUrl
+     * @param options
      * @returns {Promise<string>} short ID
-     * @throws Error if failed
+     * @throws InvalidTargetUrlError if the target URL is not allowed
+     * @throws InvalidShortIdError if the requested short ID is not allowed
+     * @throws ShortIdConflictError if the requested short ID is already taken
+     * @throws RateLimitExceededError if the caller created too many links
+     * @throws ShortIdExhaustedError if no short ID is left to generate, or generated ones kept being taken concurrently
+     * @throws BackendUnavailableError if backend failed
+     */
+    createShortLink(targetUrl: string, options?: ICreateShortLinkOptions): Promise<string>;
+
+    /**
+     * Generate short IDs for many target URLs at once.
+     * IDs are generated, checked and inserted in batches, one failed link does not fail the others
+     * @param targetUrls
+     * @param options applied to all links
+     * @returns a result for each target URL, in the same order
+     * @throws RateLimitExceededError if the caller created too many links, counting every target URL
      */
-    createShortLink(targetUrl: string): Promise<string>;
+    createShortLinks(targetUrls: string[], options?: Omit<ICreateShortLinkOptions, "shortId">): Promise<BulkCreateResult[]>;
 
     /**
      * Get a target URL from the given short ID
      * @param shortId
-     * @returns the target URL as string or null if not found
-     * @throws Error if backend failed
+     * @param visit information about the client, recorded with analytics if configured
+     * @returns the target URL as string or null if not found, expired or password protected
+     * @throws BackendUnavailableError if backend failed
+     */
+    getTargetUrl(shortId: string, visit?: IVisitContext): Promise<string | null>;
+
+    /**
+     * Get a target URL from the given short ID, checking the password of protected links.
+     * Links without password resolve regardless of the given password
+     * @param shortId
+     * @param password
+     * @param visit information about the client, recorded with analytics if configured
+     * @returns the target URL as string or null if not found, expired or the password does not match
+     * @throws BackendUnavailableError if backend failed
+     */
+    resolveProtectedLink(shortId: string, password: string, visit?: IVisitContext): Promise<string | null>;
+
+    /**
+     * Point an existing short ID to a new target URL and rewrite it in all caches
+     * @param shortId
+     * @param targetUrl
+     * @returns true if updated, false if the short ID does not exist
+     * @throws InvalidTargetUrlError if the target URL is not allowed
+     * @throws BackendUnavailableError if backend failed
+     */
+    updateTargetUrl(shortId: string, targetUrl: string): Promise<boolean>;
+
+    /**
+     * Remove the short link from the backend and all caches
+     * @param shortId
+     * @returns true if deleted, false if the short ID does not exist
+     * @throws BackendUnavailableError if backend failed
      */
-    getTargetUrl(shortId: string): Promise<string | null>;
+    deleteShortLink(shortId: string): Promise<boolean>;
 
     /**
      * Update last accessed time to avoid link being cleaned
      * @param shortId
      * @param time last accessed time. Defaults to current time
-     * @throws Error if backend failed
+     * @throws BackendUnavailableError if backend failed
      */
     updateShortLinkLastAccessTime(shortId: string, time?: number | Date): Promise<void>;
 
     /**
      * Clean up unused links that are older than the given maxAge
      * @param maxAge number of days the record should be kept
-     * @throws Error if backend failed
+     * @throws BackendUnavailableError if backend failed
      */
     cleanUnusedLinks(maxAge: number): Promise<void>;
+
+    /**
+     * Clean up links that have passed their expiry time
+     * and remove them from all caches.
+     * Does nothing if the backend does not support link expiry
+     * @throws BackendUnavailableError if backend failed
+     */
+    cleanExpiredLinks(): Promise<void>;
+
+    /**
+     * Remove expired and unused links in bounded batches, e.g. from a scheduled job.
+     * Removed links are evicted from caches with {@link IManagerProps#waitUntil} if provided
+     * @param cleanupOptions
+     * @returns the number of removed links
+     * @throws BackendUnavailableError if backend failed
+     */
+    runCleanup(cleanupOptions?: ICleanupOptions): Promise<ICleanupResult>;
+
+    /**
+     * Bring back a link archived by a cleanup so it resolves again
+     * @param shortId
+     * @returns true if restored, false if the short ID is not archived
+     * @throws UnsupportedFeatureError if the backend does not support archiving
+     * @throws BackendUnavailableError if backend failed
+     */
+    restoreShortLink(shortId: string): Promise<boolean>;
+
+    /**
+     * List short links page by page
+     * @param options
+     * @throws UnsupportedFeatureError if the backend does not support listing
+     * @throws BackendUnavailableError if backend failed
+     */
+    listShortLinks(options?: IListShortLinksOptions): Promise<IShortLinksPage>;
+
+    /**
+     * Point a short ID to a new target URL and rewrite it in all caches, only if it belongs to the owner
+     * @param ownerId
+     * @param shortId
+     * @param targetUrl
+     * @returns true if updated, false if the short ID does not exist or belongs to someone else
+     * @throws InvalidTargetUrlError if the target URL is not allowed
+     * @throws UnsupportedFeatureError if the backend does not support ownership
+     * @throws BackendUnavailableError if backend failed
+     */
+    updateOwnedTargetUrl(ownerId: string, shortId: string, targetUrl: string): Promise<boolean>;
+
+    /**
+     * Remove the short link from the backend and all caches, only if it belongs to the owner
+     * @param ownerId
+     * @param shortId
+     * @returns true if deleted, false if the short ID does not exist or belongs to someone else
+     * @throws UnsupportedFeatureError if the backend does not support ownership
+     * @throws BackendUnavailableError if backend failed
+     */
+    deleteOwnedShortLink(ownerId: string, shortId: string): Promise<boolean>;
+
+    /**
+     * Count the active links of the owner, e.g. to enforce quotas
+     * @param ownerId
+     * @throws UnsupportedFeatureError if the backend does not support ownership
+     * @throws BackendUnavailableError if backend failed
+     */
+    countShortLinksByOwner(ownerId: string): Promise<number>;
 }
 
-export async function createManager({ backend, caches = [], shortIdLength, onShortIdLengthUpdated, waitUntil, options }: IManagerProps): Promise<IShortLinksManager> {
+const BULK_CREATE_BATCH_SIZE = 50;
+// When a failing cache can be used again, keyed by the cache identity to be shared by all managers using the same storage
+const cacheCooldownEnds = new WeakMap<object, number>();
+// Number of short IDs tried for a link when concurrent creations take them first
+const MAX_INSERT_ATTEMPTS = 3;
+
+function resolveExpiresAt(createOptions?: ICreateShortLinkOptions): Date | null {
+    if (createOptions?.expiresAt !== undefined) {
+        return new Date(createOptions.expiresAt);
+    }
+
+    if (createOptions?.ttl !== undefined) {
+        return new Date(Date.now() + createOptions.ttl * 1000);
+    }
+
+    return null;
+}
+
+function toError(err: unknown): Error {
+    return err instanceof Error ? err : new Error(String(err));
+}
+
+function toCacheEntry(targetUrl: string, attributes: IShortLinkAttributes): ICacheEntry {
+    const expiresAt = attributes.expiresAt?.getTime();
+
+    // The target URL of protected links must not be readable from caches
+    if (attributes.passwordHash) {
+        return { isProtected: true, expiresAt };
+    }
+
+    return { targetUrl, expiresAt };
+}
+
+export async function createManager(props: IManagerProps): Promise<IShortLinksManager> {
+    let { shortIdLength } = props;
+    const { onShortIdLengthUpdated, shortIdGenerator, waitUntil, options } = props;
+
+    // Errors of the backend and caches are wrapped so callers can rely on the error codes
+    const toBackendError = (cause: unknown) => new BackendUnavailableError({ cause });
+    const backend = wrapErrors(props.backend, toBackendError);
+    const caches = (props.caches ?? []).map(cache => wrapErrors(cache, cause => new CacheError({ cause })));
+    const analytics = props.analytics && wrapErrors(props.analytics, toBackendError);
+    const rateLimit = props.rateLimit && {
+        perCaller: props.rateLimit.perCaller && wrapErrors(props.rateLimit.perCaller, toBackendError),
+        global: props.rateLimit.global && wrapErrors(props.rateLimit.global, toBackendError),
+    };
+
     await backend.init?.();
 
-    return {
-        async createShortLink(targetUrl: string): Promise<string> {
-            let shortId = "";
+    const keyspaceGrowthThreshold = options?.keyspaceGrowthThreshold;
+    if (keyspaceGrowthThreshold !== undefined) {
+        if (!(keyspaceGrowthThreshold > 0 && keyspaceGrowthThreshold <= 1)) {
+            throw new ValidationError("keyspaceGrowthThreshold must be greater than 0 and at most 1");
+        }
+
+        if (!backend.countShortIdsOfLength) {
+            throw new UnsupportedFeatureError("The backend does not support counting short IDs");
+        }
+    }
+
+    if (options?.reuseExistingForSameTarget && !backend.findShortIdByTargetUrl) {
+        throw new UnsupportedFeatureError("The backend does not support finding links by target URL");
+    }
+
+    // Read when the first ID is generated, managers only resolving links do not need it
+    let isStoredLengthRead = !backend.getShortIdLength;
+    let isKeyspaceChecked = keyspaceGrowthThreshold === undefined;
+
+    function toCacheKey(shortId: string): string {
+        // Prefixes cannot contain the separator, so the keys of different prefixes never collide
+        return backend.cacheKeyPrefix === undefined ? shortId : `${backend.cacheKeyPrefix}:${shortId}`;
+    }
+
+    /**
+     * Count the links against the rate limits
+     * @throws RateLimitExceededError if a limit is exceeded
+     */
+    async function consumeRateLimits(cost: number, createOptions?: ICreateShortLinkOptions) {
+        const callerId = createOptions?.callerId ?? createOptions?.ownerId;
+        const limits: [key: string, limiter: IRateLimiter][] = [];
+
+        if (rateLimit?.perCaller && callerId !== undefined) {
+            limits.push([callerId, rateLimit.perCaller]);
+        }
+        if (rateLimit?.global) {
+            limits.push(["global", rateLimit.global]);
+        }
+
+        for (const [key, limiter] of limits) {
+            const result = await limiter.consume(key, cost);
+            if (!result.allowed) {
+                throw new RateLimitExceededError(key, result.retryAfter);
+            }
+        }
+    }
+
+    function assertOwnershipSupported() {
+        if (!backend.updateOwnedTargetUrl || !backend.deleteOwnedShortLink || !backend.countShortLinksByOwner) {
+            throw new UnsupportedFeatureError("The backend does not support link ownership");
+        }
+    }
+
+    async function resolveAttributes(createOptions?: ICreateShortLinkOptions): Promise<IShortLinkAttributes> {
+        const maxClicks = createOptions?.maxClicks;
+        if (maxClicks !== undefined) {
+            if (!Number.isInteger(maxClicks) || maxClicks < 1) {
+                throw new ValidationError("maxClicks must be a positive integer");
+            }
+
+            if (!backend.consumeClick || !backend.getShortLink) {
+                throw new UnsupportedFeatureError("The backend does not support click limits");
+            }
+        }
 
-            for (let i = 0; i < 3; i++) {
-                // Generate multiple IDs to check if any of them are not already taken
-                // Then use the first one that is not
-                const listToTest = generateUniqueShortIds(50, shortIdLength);
-                const existed = await backend.checkShortIdsExist(listToTest);
-                const uniqueShortId = listToTest.find(id => !existed.includes(id));
+        // Without getShortLink, links are read with getTargetUrl which hides protected links and knows no expiry
+        if (createOptions?.password !== undefined && !backend.getShortLink) {
+            throw new UnsupportedFeatureError("The backend does not support password protection");
+        }
 
-                if (!uniqueShortId) {
-                    ++shortIdLength;
+        if (createOptions?.ownerId !== undefined) {
+            assertOwnershipSupported();
+        }
 
-                    const updateRes = onShortIdLengthUpdated(shortIdLength);
-                    if (waitUntil && updateRes instanceof Promise) {
-                        waitUntil(updateRes);
+        const expiresAt = createOptions?.expiresAt;
+        if (expiresAt !== undefined) {
+            const expiresAtTime = new Date(expiresAt).getTime();
+            if (!Number.isFinite(expiresAtTime)) {
+                throw new ValidationError("expiresAt must be a valid date");
+            }
+
+            // The link would never resolve
+            if (expiresAtTime <= Date.now()) {
+                throw new ValidationError("expiresAt must be in the future");
+            }
+        }
+
+        const ttl = createOptions?.ttl;
+        if (expiresAt === undefined && ttl !== undefined && (!Number.isFinite(ttl) || ttl <= 0)) {
+            throw new ValidationError("ttl must be a positive number of seconds");
+        }
+
+        if ((expiresAt !== undefined || ttl !== undefined) && !backend.getShortLink) {
+            throw new UnsupportedFeatureError("The backend does not support link expiry");
+        }
+
+        return {
+            expiresAt: resolveExpiresAt(createOptions),
+            passwordHash: createOptions?.password !== undefined ? await hashPassword(createOptions.password) : null,
+            maxClicks: maxClicks ?? null,
+            ownerId: createOptions?.ownerId ?? null,
+        };
+    }
+
+    async function getShortLinkFromBackend(shortId: string): Promise<IShortLink | null> {
+        if (backend.getShortLink) {
+            return await backend.getShortLink(shortId);
+        }
+
+        const targetUrl = await backend.getTargetUrl(shortId);
+        return targetUrl ? { shortId, targetUrl, expiresAt: null } : null;
+    }
+
+    async function growShortIdLength() {
+        // The stored length is updated atomically, it may already be longer if another manager grew it
+        shortIdLength = backend.increaseShortIdLength
+            ? await backend.increaseShortIdLength(shortIdLength)
+            : shortIdLength + 1;
+
+        const updateRes = onShortIdLengthUpdated?.(shortIdLength);
+        if (waitUntil && updateRes instanceof Promise) {
+            waitUntil(updateRes);
+        }
+        else {
+            await updateRes;
+        }
+    }
+
+    /**
+     * Generate short IDs that are not taken yet.
+     * The length is increased when all generated IDs are already taken
+     * @param count
+     * @returns up to {@link count} short IDs, fewer if potentially ran out
+     */
+    async function generateAvailableShortIds(count: number): Promise<string[]> {
+        const available: string[] = [];
+
+        if (!isStoredLengthRead) {
+            // Another manager may have grown the length already
+            const storedLength = await backend.getShortIdLength!();
+            if (storedLength && storedLength > shortIdLength) {
+                shortIdLength = storedLength;
+            }
+            isStoredLengthRead = true;
+        }
+
+        if (!isKeyspaceChecked) {
+            isKeyspaceChecked = true;
+
+            const alphabetSize = shortIdGenerator?.alphabetSize ?? BASE62_ALPHABET.length;
+            const used = await backend.countShortIdsOfLength!(shortIdLength);
+            if (used >= keyspaceGrowthThreshold! * alphabetSize ** shortIdLength) {
+                await growShortIdLength();
+            }
+        }
+
+        // Taken sequential IDs do not mean the IDs of this length ran out, e.g. custom IDs may take some,
+        // the next counter values are tried instead of growing the length
+        const isSequential = shortIdGenerator?.isSequential ?? false;
+        const rounds = isSequential ? 10 : 3;
+
+        for (let i = 0; i < rounds && available.length < count; i++) {
+            // Generate multiple IDs to check if any of them are not already taken
+            // Then use the first ones that are not
+            const candidateCount = isSequential ? count - available.length : Math.max(50, count);
+            const candidates = shortIdGenerator
+                ? await shortIdGenerator.generate(candidateCount, shortIdLength)
+                : generateUniqueShortIds(candidateCount, shortIdLength);
+            const listToTest = candidates.filter(id => !available.includes(id));
+            const existed = listToTest.length > 0 ? await backend.checkShortIdsExist(listToTest) : [];
+            const uniqueShortIds = listToTest.filter(id => !existed.includes(id));
+
+            if (uniqueShortIds.length === 0) {
+                if (!isSequential) {
+                    await growShortIdLength();
+                }
+            }
+            else {
+                available.push(...uniqueShortIds.slice(0, count - available.length));
+            }
+        }
+
+        return available;
+    }
+
+    /**
+     * Insert the link with a generated short ID. Another instance may take the ID between the check and the insert,
+     * the insert is retried with a new ID when it conflicts
+     * @returns the short ID of the link
+     */
+    async function insertWithGeneratedShortId(targetUrl: string, attributes: IShortLinkAttributes): Promise<string> {
+        for (let attempt = 1; ; attempt++) {
+            const shortId = (await generateAvailableShortIds(1))[0];
+            if (!shortId) {
+                throw new ShortIdExhaustedError();
+            }
+
+            try {
+                await backend.createShortLink(shortId, targetUrl, attributes);
+                return shortId;
+            }
+            catch (err) {
+                if (!(err instanceof ShortIdConflictError)) {
+                    throw err;
+                }
+
+                // The caller did not ask for this short ID, a conflict on it would be misleading
+                if (attempt >= MAX_INSERT_ATTEMPTS) {
+                    throw new ShortIdExhaustedError({ cause: err });
+                }
+            }
+        }
+    }
+
+    /**
+     * Insert the links in the backend, in a single batch if supported
+     * @returns the error for each link, undefined if created
+     */
+    async function insertShortLinks(links: INewShortLink[]): Promise<(Error | undefined)[]> {
+        if (backend.createShortLinks) {
+            try {
+                const created = await backend.createShortLinks(links);
+                return links.map(link => created.includes(link.shortId) ? undefined : new ShortIdConflictError(link.shortId));
+            }
+            catch (err) {
+                return links.map(() => toError(err));
+            }
+        }
+
+        const errors: (Error | undefined)[] = [];
+        for (const link of links) {
+            try {
+                await backend.createShortLink(link.shortId, link.targetUrl, link.attributes);
+                errors.push(undefined);
+            }
+            catch (err) {
+                errors.push(toError(err));
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * Run the operation on the cache, initialising it first.
+     * A failure is reported with {@link IManagerProps#options#onCacheError} instead of failing the call,
+     * and the cache is skipped until its cool-down has passed
+     * @param index index of the cache
+     * @param operation the cache call, a failed init or operation skips the cache for the cool-down
+     * @param isInvalidation run even during the cool-down, so entries of changed links are not served
+     * once the cache is read again
+     * @returns the result of the operation, undefined if the cache is skipped or failed
+     */
+    async function useCache<T>(index: number, operation: (cache: ICache) => T | Promise<T>, isInvalidation = false): Promise<T | undefined> {
+        const originalCache = props.caches![index];
+        const identity = originalCache.identity ?? originalCache;
+        if (!isInvalidation && (cacheCooldownEnds.get(identity) ?? 0) > Date.now()) {
+            return undefined;
+        }
+
+        const cache = caches[index];
+        try {
+            if (!cache.initialised) {
+                await cache.init?.();
+                // Only marked after init succeeded, so a failed init is tried again after the cool-down
+                cache.initialised = true;
+            }
+
+            return await operation(cache);
+        }
+        catch (err) {
+            cacheCooldownEnds.set(identity, Date.now() + (options?.cacheCooldown ?? 30) * 1000);
+
+            try {
+                await options?.onCacheError?.(err instanceof CacheError ? err : new CacheError({ cause: err }), originalCache);
+            }
+            catch {
+                // A failing hook must not fail the call either
+            }
+
+            return undefined;
+        }
+    }
+
+    async function setInCaches(entries: [shortId: string, value: string][]) {
+        for (let i = 0; i < caches.length; i++) {
+            // Overwrites cached misses of the new short IDs
+            await useCache(i, async (cache) => {
+                for (const [shortId, value] of entries) {
+                    await cache.set(toCacheKey(shortId), value);
+                }
+            }, true);
+        }
+    }
+
+    async function checkTargetUrl(targetUrl: string) {
+        if (options?.targetUrlValidation !== false) {
+            await validateTargetUrl(targetUrl, options?.targetUrlValidation);
+        }
+    }
+
+    /**
+     * Update the last access time and record the visit of a resolved link
+     */
+    async function recordAccess(shortId: string, visit?: IVisitContext) {
+        if (options?.shouldUpdateLastAccessOnGet ?? true) {
+            const updateRes = backend.updateShortLinkLastAccessTime(shortId);
+            if (waitUntil && updateRes instanceof Promise) {
+                waitUntil(updateRes);
+            }
+            else {
+                await updateRes;
+            }
+        }
+
+        if (analytics) {
+            const recordRes = (async () => {
+                try {
+                    await analytics.recordVisit({
+                        ...visit,
+                        shortId,
+                        timestamp: new Date(),
+                    });
+                }
+                catch (err) {
+                    try {
+                        // Errors of the analytics are wrapped, see createManager
+                        await options?.onAnalyticsError?.(err as ShortLinksError);
                     }
-                    else {
-                        await updateRes;
+                    catch {
+                        // A failing hook must not fail the redirect either
                     }
                 }
-                else {
-                    shortId = uniqueShortId;
-                    break;
+            })();
+
+            if (waitUntil) {
+                waitUntil(recordRes);
+            }
+            else {
+                await recordRes;
+            }
+        }
+    }
+
+    async function setMissInCaches(shortId: string, ttl: number) {
+        for (let i = 0; i < caches.length; i++) {
+            if (caches[i].setMiss) {
+                await useCache(i, cache => cache.setMiss!(toCacheKey(shortId), ttl));
+            }
+        }
+    }
+
+    /**
+     * Write the new target URL of an updated link to all caches
+     */
+    async function rewriteInCaches(shortId: string, targetUrl: string) {
+        // Read the link back to keep its other properties, e.g. expiry
+        const link = await getShortLinkFromBackend(shortId);
+        if (typeof link?.remainingClicks === "number") {
+            await removeFromCaches([shortId]);
+            return;
+        }
+
+        const cacheValue = serialiseCacheEntry(toCacheEntry(targetUrl, link ?? {}));
+
+        for (let i = 0; i < caches.length; i++) {
+            await useCache(i, cache => cache.set(toCacheKey(shortId), cacheValue), true);
+        }
+    }
+
+    async function removeFromCaches(shortIds: string[]) {
+        await Promise.all(caches.map(async (_, i) => {
+            if (caches[i].delete) {
+                // Deleted concurrently, cleanups may remove many links at once
+                await useCache(i, cache => Promise.all(shortIds.map(shortId => cache.delete!(toCacheKey(shortId)))), true);
+            }
+        }));
+    }
+
+    return {
+        async createShortLink(targetUrl: string, createOptions?: ICreateShortLinkOptions): Promise<string> {
+            let shortId = "";
+
+            await consumeRateLimits(1, createOptions);
+            await checkTargetUrl(targetUrl);
+
+            const hasCustomisation = createOptions?.shortId !== undefined
+                || createOptions?.expiresAt !== undefined
+                || createOptions?.ttl !== undefined
+                || createOptions?.password !== undefined
+                || createOptions?.maxClicks !== undefined
+                || createOptions?.ownerId !== undefined;
+
+            if (options?.reuseExistingForSameTarget && !hasCustomisation) {
+                const existingShortId = await backend.findShortIdByTargetUrl!(targetUrl);
+                if (existingShortId) {
+                    return existingShortId;
                 }
             }
 
-            if (!shortId) {
-                throw new Error("Unable to create a shortlink, potentially ran out");
+            if (createOptions?.shortId !== undefined) {
+                validateCustomShortId(createOptions.shortId, options?.customShortId);
+
+                const existed = await backend.checkShortIdsExist([createOptions.shortId]);
+                if (existed.includes(createOptions.shortId)) {
+                    throw new ShortIdConflictError(createOptions.shortId);
+                }
+
+                shortId = createOptions.shortId;
             }
 
-            await backend.createShortLink(shortId, targetUrl);
+            const attributes = await resolveAttributes(createOptions);
+
+            if (shortId) {
+                await backend.createShortLink(shortId, targetUrl, attributes);
+            }
+            else {
+                shortId = await insertWithGeneratedShortId(targetUrl, attributes);
+            }
 
             if (caches.length > 0) {
-                const cachePromise = (async () => {
-                    for (let i = 0; i < caches.length; i++) {
-                        if (!caches[i].initialised) {
-                            await caches[i].init?.();
-                            caches[i].initialised = true;
+                // Links with a click limit must always go through the backend, only clear a cached miss
+                const cachePromise = attributes.maxClicks
+                    ? removeFromCaches([shortId])
+                    : setInCaches([[shortId, serialiseCacheEntry(toCacheEntry(targetUrl, attributes))]]);
+
+                if (waitUntil) {
+                    waitUntil(cachePromise);
+                }
+                else {
+                    await cachePromise;
+                }
+            }
+
+            return shortId;
+        },
+
+        async createShortLinks(targetUrls, createOptions) {
+            await consumeRateLimits(targetUrls.length, createOptions);
+
+            const results: BulkCreateResult[] = new Array(targetUrls.length);
+            // Password is hashed once, the salt is shared by all links of the batch
+            const attributes = await resolveAttributes(createOptions);
+            const canReuse = options?.reuseExistingForSameTarget
+                && !attributes.expiresAt && !attributes.passwordHash && !attributes.maxClicks && !attributes.ownerId;
+
+            // Indexes of target URLs that need a new short ID
+            const pending: number[] = [];
+            // Index of the first occurrence of each normalised target URL, to avoid creating duplicates in the same batch
+            const firstIndexes = new Map<string, number>();
+            const duplicates: [index: number, firstIndex: number][] = [];
+
+            for (let i = 0; i < targetUrls.length; i++) {
+                const targetUrl = targetUrls[i]!;
+
+                try {
+                    await checkTargetUrl(targetUrl);
+                }
+                catch (err) {
+                    results[i] = { targetUrl, success: false, error: toError(err) };
+                    continue;
+                }
+
+                if (canReuse) {
+                    const normalisedUrl = normaliseUrl(targetUrl);
+                    const firstIndex = firstIndexes.get(normalisedUrl);
+                    if (firstIndex !== undefined) {
+                        duplicates.push([i, firstIndex]);
+                        continue;
+                    }
+                    firstIndexes.set(normalisedUrl, i);
+
+                    try {
+                        const existingShortId = await backend.findShortIdByTargetUrl!(targetUrl);
+                        if (existingShortId) {
+                            results[i] = { targetUrl, success: true, shortId: existingShortId };
+                            continue;
+                        }
+                    }
+                    catch (err) {
+                        results[i] = { targetUrl, success: false, error: toError(err) };
+                        continue;
+                    }
+                }
+
+                pending.push(i);
+            }
+
+            const cacheEntries: [string, string][] = [];
+            const createdShortIds: string[] = [];
+
+            for (let start = 0; start < pending.length; start += BULK_CREATE_BATCH_SIZE) {
+                let batch = pending.slice(start, start + BULK_CREATE_BATCH_SIZE);
+
+                // Links whose short ID was taken by a concurrent creation are retried with new IDs
+                for (let attempt = 1; attempt <= MAX_INSERT_ATTEMPTS && batch.length > 0; attempt++) {
+                    let shortIds: string[];
+                    try {
+                        shortIds = await generateAvailableShortIds(batch.length);
+                    }
+                    catch (err) {
+                        for (const index of batch) {
+                            results[index] = { targetUrl: targetUrls[index]!, success: false, error: toError(err) };
                         }
-                        await caches[i].set(shortId, targetUrl);
+                        break;
                     }
-                })();
+
+                    const links: INewShortLink[] = [];
+                    const linkIndexes: number[] = [];
+                    for (let i = 0; i < batch.length; i++) {
+                        const index = batch[i]!;
+                        const shortId = shortIds[i];
+
+                        if (shortId) {
+                            links.push({ shortId, targetUrl: targetUrls[index]!, attributes });
+                            linkIndexes.push(index);
+                        }
+                        else {
+                            results[index] = { targetUrl: targetUrls[index]!, success: false, error: new ShortIdExhaustedError() };
+                        }
+                    }
+
+                    const linkErrors = await insertShortLinks(links);
+                    const conflicted: number[] = [];
+
+                    links.forEach((link, i) => {
+                        const index = linkIndexes[i]!;
+                        const error = linkErrors[i];
+
+                        if (error instanceof ShortIdConflictError) {
+                            if (attempt < MAX_INSERT_ATTEMPTS) {
+                                conflicted.push(index);
+                            }
+                            else {
+                                results[index] = { targetUrl: link.targetUrl, success: false, error: new ShortIdExhaustedError({ cause: error }) };
+                            }
+                        }
+                        else if (error) {
+                            results[index] = { targetUrl: link.targetUrl, success: false, error };
+                        }
+                        else {
+                            results[index] = { targetUrl: link.targetUrl, success: true, shortId: link.shortId };
+                            createdShortIds.push(link.shortId);
+                            cacheEntries.push([link.shortId, serialiseCacheEntry(toCacheEntry(link.targetUrl, attributes))]);
+                        }
+                    });
+
+                    batch = conflicted;
+                }
+            }
+
+            for (const [index, firstIndex] of duplicates) {
+                results[index] = { ...results[firstIndex]!, targetUrl: targetUrls[index]! };
+            }
+
+            if (caches.length > 0 && createdShortIds.length > 0) {
+                // Links with a click limit must always go through the backend, only clear cached misses
+                const cachePromise = attributes.maxClicks
+                    ? removeFromCaches(createdShortIds)
+                    : setInCaches(cacheEntries);
 
                 if (waitUntil) {
                     waitUntil(cachePromise);
@@ -160,67 +1239,140 @@ export async function createManager({ backend, caches = [], shortIdLength, onSho
                 }
             }
 
-            return shortId;
+            return results;
         },
 
-        async getTargetUrl(shortId) {
-            let targetUrl: string | null = null;
+        async getTargetUrl(shortId, visit) {
+            let entry: ICacheEntry | null = null;
             let cacheHitIndex = -1;
+            // Links with a click limit are never cached
+            let hasClickLimit = false;
 
             for (let i = 0; i < caches.length; i++) {
-                if (!caches[i].initialised) {
-                    await caches[i].init?.();
-                    caches[i].initialised = true;
+                // Failing caches are skipped, the link is read from the next cache or the backend
+                const cached = await useCache(i, cache => cache.get(toCacheKey(shortId)));
+                if (cached === CACHED_MISS) {
+                    return null;
                 }
 
-                targetUrl = await caches[i].get(shortId);
-                if (targetUrl) {
+                if (cached) {
+                    entry = parseCacheEntry(cached);
                     cacheHitIndex = i;
                     break;
                 }
             }
 
-            if (!targetUrl) {
-                targetUrl = await backend.getTargetUrl(shortId);
+            if (!entry) {
+                const link = await getShortLinkFromBackend(shortId);
+                if (link) {
+                    entry = toCacheEntry(link.targetUrl, link);
+                    hasClickLimit = typeof link.remainingClicks === "number";
+                }
             }
 
-            if (targetUrl) {
-                if (options?.shouldUpdateLastAccessOnGet ?? true) {
-                    const updateRes = backend.updateShortLinkLastAccessTime(shortId);
-                    if (waitUntil && updateRes instanceof Promise) {
-                        waitUntil(updateRes);
+            if (!entry) {
+                const negativeCacheTtl = options?.negativeCacheTtl;
+                if (negativeCacheTtl !== undefined && caches.length > 0) {
+                    const missRes = setMissInCaches(shortId, negativeCacheTtl);
+                    if (waitUntil) {
+                        waitUntil(missRes);
                     }
                     else {
-                        await updateRes;
+                        await missRes;
                     }
                 }
 
-                // Only update caches that were miss
-                // Avoid rewriting to a hit cache
-                let cacheToUpdateCount = caches.length;
-                if (cacheHitIndex >= 0) {
-                    cacheToUpdateCount = cacheHitIndex;
-                }
-
-                for (let i = 0; i < cacheToUpdateCount; i++) {
-                    const updateRes = (async function () {
-                        if (!caches[i].initialised) {
-                            await caches[i].init?.();
-                            caches[i].initialised = true;
-                        }
-                        await caches[i].set(shortId, targetUrl);
-                    })();
+                return null;
+            }
 
+            if (isCacheEntryExpired(entry)) {
+                // Caches may still hold the link, evict it so it is not read again
+                if (cacheHitIndex >= 0) {
+                    const evictRes = removeFromCaches([shortId]);
                     if (waitUntil) {
-                        waitUntil(updateRes);
+                        waitUntil(evictRes);
                     }
                     else {
-                        await updateRes;
+                        await evictRes;
                     }
                 }
+
+                return null;
+            }
+
+            // Protected links are only visited through resolveProtectedLink
+            if (!entry.isProtected) {
+                if (hasClickLimit && !(await backend.consumeClick?.(shortId))) {
+                    return null;
+                }
+
+                await recordAccess(shortId, visit);
+            }
+
+            const cacheValue = serialiseCacheEntry(entry);
+
+            // Only update caches that were miss
+            // Avoid rewriting to a hit cache
+            let cacheToUpdateCount = caches.length;
+            if (cacheHitIndex >= 0) {
+                cacheToUpdateCount = cacheHitIndex;
+            }
+            else if (hasClickLimit) {
+                cacheToUpdateCount = 0;
+            }
+
+            for (let i = 0; i < cacheToUpdateCount; i++) {
+                const updateRes = useCache(i, cache => cache.set(toCacheKey(shortId), cacheValue));
+
+                if (waitUntil) {
+                    waitUntil(updateRes);
+                }
+                else {
+                    await updateRes;
+                }
+            }
+
+            return entry.targetUrl ?? null;
+        },
+
+        async resolveProtectedLink(shortId, password, visit) {
+            // Always read from the backend, caches do not hold the target URL of protected links
+            const link = await getShortLinkFromBackend(shortId);
+            if (!link || (link.expiresAt && link.expiresAt.getTime() <= Date.now())) {
+                return null;
+            }
+
+            if (link.passwordHash && !(await verifyPassword(password, link.passwordHash))) {
+                return null;
             }
 
-            return targetUrl;
+            if (typeof link.remainingClicks === "number" && !(await backend.consumeClick?.(shortId))) {
+                return null;
+            }
+
+            await recordAccess(shortId, visit);
+
+            return link.targetUrl;
+        },
+
+        async updateTargetUrl(shortId, targetUrl) {
+            await checkTargetUrl(targetUrl);
+
+            const updated = await backend.updateTargetUrl(shortId, targetUrl);
+            if (updated) {
+                await rewriteInCaches(shortId, targetUrl);
+            }
+
+            return updated;
+        },
+
+        async deleteShortLink(shortId) {
+            const deleted = await backend.deleteShortLink(shortId);
+
+            // Remove from all caches even if the backend did not have it
+            await removeFromCaches([shortId]);
+
+            return deleted;
         },
 
         async updateShortLinkLastAccessTime(shortId, time) {
@@ -231,18 +1383,119 @@ export async function createManager({ backend, caches = [], shortIdLength, onSho
             const shortIds = await backend.cleanUnusedLinks(maxAge);
 
             // Remove from all caches
-            for (const cache of caches) {
-                if (cache.delete) {
-                    if (!cache.initialised) {
-                        await cache.init?.();
-                        cache.initialised = true;
+            await removeFromCaches(shortIds);
+        },
+
+        async cleanExpiredLinks() {
+            if (!backend.cleanExpiredLinks) {
+                return;
+            }
+
+            const shortIds = await backend.cleanExpiredLinks();
+
+            // Remove from all caches
+            await removeFromCaches(shortIds);
+        },
+
+        async runCleanup(cleanupOptions = {}) {
+            const { maxAge, expired = true, batchSize = 500, maxBatches = 20 } = cleanupOptions;
+            const result: ICleanupResult = { unusedLinks: 0, expiredLinks: 0, purgedLinks: 0, hasMore: false };
+
+            const cleaners: [count: "unusedLinks" | "expiredLinks" | "purgedLinks", clean: () => string[] | Promise<string[]>][] = [];
+            if (expired && backend.cleanExpiredLinks) {
+                cleaners.push(["expiredLinks", () => backend.cleanExpiredLinks!(batchSize)]);
+            }
+            if (maxAge !== undefined) {
+                cleaners.push(["unusedLinks", () => backend.cleanUnusedLinks(maxAge, batchSize)]);
+            }
+            if (backend.purgeArchivedLinks) {
+                cleaners.push(["purgedLinks", () => backend.purgeArchivedLinks!(batchSize)]);
+            }
+
+            let batches = 0;
+
+            for (const [count, clean] of cleaners) {
+                let shortIds: string[];
+                do {
+                    if (batches >= maxBatches) {
+                        result.hasMore = true;
+                        return result;
                     }
 
-                    for (const shortId of shortIds) {
-                        await cache.delete(shortId);
+                    ++batches;
+                    shortIds = await clean();
+                    result[count] += shortIds.length;
+
+                    if (shortIds.length > 0) {
+                        const evictRes = removeFromCaches(shortIds);
+                        if (waitUntil) {
+                            waitUntil(evictRes);
+                        }
+                        else {
+                            await evictRes;
+                        }
                     }
-                }
+                } while (shortIds.length >= batchSize);
+            }
+
+            return result;
+        },
+
+        async restoreShortLink(shortId) {
+            if (!backend.restoreShortLink) {
+                throw new UnsupportedFeatureError("The backend does not support restoring short links");
+            }
+
+            const restored = await backend.restoreShortLink(shortId);
+            if (restored) {
+                // Clear a cached miss recorded while the link was archived
+                await removeFromCaches([shortId]);
+            }
+
+            return restored;
+        },
+
+        async listShortLinks(listOptions) {
+            if (!backend.listShortLinks) {
+                throw new UnsupportedFeatureError("The backend does not support listing short links");
+            }
+
+            if (listOptions?.ownerId !== undefined) {
+                assertOwnershipSupported();
+            }
+
+            return await backend.listShortLinks(listOptions);
+        },
+
+        async updateOwnedTargetUrl(ownerId, shortId, targetUrl) {
+            assertOwnershipSupported();
+            await checkTargetUrl(targetUrl);
+
+            const updated = await backend.updateOwnedTargetUrl!(ownerId, shortId, targetUrl);
+            if (updated) {
+                await rewriteInCaches(shortId, targetUrl);
+            }
+
+            return updated;
+        },
+
+        async deleteOwnedShortLink(ownerId, shortId) {
+            assertOwnershipSupported();
+
+            const deleted = await backend.deleteOwnedShortLink!(ownerId, shortId);
+
+            // The link is left untouched if it belongs to someone else
+            if (deleted) {
+                await removeFromCaches([shortId]);
             }
+
+            return deleted;
+        },
+
+        async countShortLinksByOwner(ownerId) {
+            assertOwnershipSupported();
+
+            return await backend.countShortLinksByOwner!(ownerId);
         },
     };
 }
@@ -0,0 +1,60 @@
+// Cloudflare Workers do not support more iterations
+const PBKDF2_ITERATIONS = 100_000;
+const SALT_LENGTH = 16;
+const HASH_LENGTH = 32;
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+async function derive(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+    const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+    const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, HASH_LENGTH * 8);
+
+    return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with PBKDF2 and a random salt.
+ * The result has the format `pbkdf2-sha256$<iterations>$<salt>$<hash>` and is safe to store
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const hash = await derive(password, salt, PBKDF2_ITERATIONS);
+
+    return `pbkdf2-sha256$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`;
+}
+
+/**
+ * Check a password against a hash created by {@link hashPassword}
+ * @returns false if the password does not match or the hash is malformed
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [algorithm, iterations, salt, hash] = passwordHash.split("$");
+    const iterationCount = Number(iterations);
+    if (algorithm !== "pbkdf2-sha256" || !Number.isInteger(iterationCount) || iterationCount <= 0 || !salt || !hash) {
+        return false;
+    }
+
+    const expected = fromHex(hash);
+    const actual = await derive(password, fromHex(salt), iterationCount);
+    if (actual.length !== expected.length) {
+        return false;
+    }
+
+    // Compare every byte to not leak how much of the hash matched
+    let diff = 0;
+    for (let i = 0; i < actual.length; i++) {
+        diff |= actual[i]! ^ expected[i]!;
+    }
+
+    return diff === 0;
+}
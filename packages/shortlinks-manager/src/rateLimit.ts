@@ -0,0 +1,98 @@
+import { ValidationError } from "./errors";
+
+export interface IRateLimitResult {
+    allowed: boolean;
+    /**
+     * Number of links the caller can still create in the current window
+     */
+    remaining: number;
+    /**
+     * Number of seconds until the current window ends
+     */
+    retryAfter: number;
+}
+
+export interface IRateLimiter {
+    /**
+     * Count links created by the caller. Rejected calls are counted as well
+     * @param key identity of the caller
+     * @param cost number of links created
+     */
+    consume(key: string, cost: number): IRateLimitResult | Promise<IRateLimitResult>;
+}
+
+export interface IFixedWindowOptions {
+    /**
+     * Maximum number of links created by a caller in a window
+     */
+    limit: number;
+    /**
+     * Length of a window in seconds, e.g. `3600` for hourly limits
+     */
+    window: number;
+}
+
+/**
+ * Make sure the options of a fixed window rate limiter are usable, e.g. a zero window would give no window start
+ * @param options
+ * @throws ValidationError if they are not
+ */
+export function assertValidFixedWindowOptions({ limit, window }: IFixedWindowOptions) {
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new ValidationError("limit must be a positive integer");
+    }
+
+    if (!(window > 0 && Number.isFinite(window))) {
+        throw new ValidationError("window must be a positive number");
+    }
+}
+
+/**
+ * Get the start of the fixed window containing the time and the result for the count of the window
+ * @param options
+ * @param now Unix timestamp in milliseconds
+ */
+export function getFixedWindow({ limit, window }: IFixedWindowOptions, now: number): { windowStart: number; toResult: (count: number) => IRateLimitResult } {
+    const windowMs = window * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const retryAfter = Math.ceil((windowStart + windowMs - now) / 1000);
+
+    return {
+        windowStart,
+        toResult: count => ({
+            allowed: count <= limit,
+            remaining: Math.max(0, limit - count),
+            retryAfter,
+        }),
+    };
+}
+
+/**
+ * In-memory rate limiter counting links per caller in fixed windows.
+ * Counts are not shared between isolates or processes, use a shared store for global limits
+ */
+export class FixedWindowRateLimiter implements IRateLimiter {
+    private readonly options: IFixedWindowOptions;
+    private windowStart = 0;
+    // Counts of the current window, all callers share the same window boundaries
+    private readonly counts = new Map<string, number>();
+
+    constructor(options: IFixedWindowOptions) {
+        assertValidFixedWindowOptions(options);
+        this.options = options;
+    }
+
+    consume(key: string, cost: number): IRateLimitResult {
+        const { windowStart, toResult } = getFixedWindow(this.options, Date.now());
+
+        if (windowStart !== this.windowStart) {
+            this.windowStart = windowStart;
+            this.counts.clear();
+        }
+
+        const count = (this.counts.get(key) ?? 0) + cost;
+        this.counts.set(key, count);
+
+        return toResult(count);
+    }
+}
@@ -0,0 +1,184 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Digits and letters in both cases, 62 characters
+ */
+export const BASE62_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/**
+ * {@link BASE62_ALPHABET} without characters that look alike, e.g. `0/O/o` and `1/l/I`
+ */
+export const UNAMBIGUOUS_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ";
+
+/**
+ * Strategy creating candidate short IDs. The manager filters out the ones already taken,
+ * and increases the length when all candidates are taken
+ */
+export interface IShortIdGenerator {
+    /**
+     * Generate distinct short IDs
+     * @param count number of IDs wanted, fewer may be returned
+     * @param length length of the IDs
+     */
+    generate(count: number, length: number): string[] | Promise<string[]>;
+    /**
+     * Whether IDs are handed out in order, so the manager only requests as many IDs as it needs
+     * instead of a larger batch of random candidates
+     */
+    readonly isSequential?: boolean;
+    /**
+     * Number of characters IDs are made of, used to size the ID space of a length. Defaults to 62
+     */
+    readonly alphabetSize?: number;
+}
+
+export interface IRandomShortIdOptions {
+    /**
+     * Characters of the IDs, e.g. {@link UNAMBIGUOUS_ALPHABET}. Defaults to {@link BASE62_ALPHABET}
+     */
+    alphabet?: string;
+}
+
+export interface ISequentialShortIdOptions {
+    /**
+     * Characters of the IDs, the first one is used as padding. Defaults to {@link BASE62_ALPHABET}
+     */
+    alphabet?: string;
+    /**
+     * Reserve the given number of consecutive values and return the first one, e.g. from a counter in a database.
+     * Must be shared by all instances, Workers run many isolates each starting from scratch
+     * @param count
+     */
+    reserve: (count: number) => number | Promise<number>;
+}
+
+export interface IProfanityFilterOptions {
+    /**
+     * Words IDs must not contain, compared case-insensitively and with digits read as look-alike letters,
+     * e.g. `5h1t` matches `shit`. Defaults to a short list of common English profanity
+     */
+    words?: string[];
+}
+
+const DEFAULT_BLOCKED_WORDS = ["anal", "anus", "arse", "ass", "bitch", "boob", "cock", "cum", "cunt", "dick", "dildo", "fag", "fuck", "jizz", "nazi", "nigg", "penis", "piss", "porn", "pussy", "rape", "sex", "shit", "slut", "tit", "twat", "vagina", "wank", "whore"];
+
+const LOOK_ALIKE_LETTERS: Record<string, string> = { 0: "o", 1: "i", 3: "e", 4: "a", 5: "s", 7: "t", 8: "b" };
+
+function assertValidAlphabet(alphabet: string) {
+    if (alphabet.length < 2 || alphabet.length > 256 || new Set(alphabet).size !== alphabet.length) {
+        throw new ValidationError("alphabet must have between 2 and 256 distinct characters");
+    }
+}
+
+/**
+ * Generate a random string with `crypto.getRandomValues`
+ * @param length
+ * @param alphabet
+ */
+export function generateSecureRandomString(length: number, alphabet = BASE62_ALPHABET): string {
+    // Bytes from this value up would make some characters more likely than others
+    const limit = 256 - (256 % alphabet.length);
+    let result = "";
+
+    while (result.length < length) {
+        for (const byte of crypto.getRandomValues(new Uint8Array(length * 2))) {
+            if (byte < limit && result.length < length) {
+                result += alphabet[byte % alphabet.length];
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Create a generator of unpredictable IDs using `crypto.getRandomValues`
+ * @param options
+ */
+export function createRandomShortIdGenerator(options: IRandomShortIdOptions = {}): IShortIdGenerator {
+    const { alphabet = BASE62_ALPHABET } = options;
+    assertValidAlphabet(alphabet);
+
+    return {
+        alphabetSize: alphabet.length,
+
+        generate(count, length) {
+            const ids = new Set<string>();
+            // Stop early in small ID spaces where most IDs have been generated already
+            for (let i = 0; ids.size < count && i < count * 100; i++) {
+                ids.add(generateSecureRandomString(length, alphabet));
+            }
+            return Array.from(ids);
+        },
+    };
+}
+
+/**
+ * Create a generator encoding a counter with the alphabet, e.g. `000001`, `000002`...
+ * IDs are easy to guess, only use it when links are not meant to be private.
+ * IDs grow past the requested length once the counter needs more characters
+ * @param options
+ */
+export function createSequentialShortIdGenerator(options: ISequentialShortIdOptions): IShortIdGenerator {
+    const { alphabet = BASE62_ALPHABET, reserve } = options;
+    assertValidAlphabet(alphabet);
+
+    function encode(value: number, length: number): string {
+        let result = "";
+        do {
+            result = alphabet[value % alphabet.length] + result;
+            value = Math.floor(value / alphabet.length);
+        } while (value > 0);
+
+        return result.padStart(length, alphabet[0]);
+    }
+
+    return {
+        isSequential: true,
+        alphabetSize: alphabet.length,
+
+        async generate(count, length) {
+            const first = await reserve(count);
+            return Array.from({ length: count }, (_, i) => encode(first + i, length));
+        },
+    };
+}
+
+/**
+ * Wrap a generator to drop IDs containing offensive words, generating more IDs to make up for them
+ * @param generator
+ * @param options
+ */
+export function withProfanityFilter(generator: IShortIdGenerator, options: IProfanityFilterOptions = {}): IShortIdGenerator {
+    const words = (options.words ?? DEFAULT_BLOCKED_WORDS).map(word => word.toLowerCase());
+
+    function isOffensive(shortId: string): boolean {
+        const lowered = shortId.toLowerCase();
+        const readAsLetters = lowered.replace(/[0-9]/g, digit => LOOK_ALIKE_LETTERS[digit] ?? digit);
+        return words.some(word => lowered.includes(word) || readAsLetters.includes(word));
+    }
+
+    return {
+        isSequential: generator.isSequential,
+        alphabetSize: generator.alphabetSize,
+
+        async generate(count, length) {
+            const ids = new Set<string>();
+
+            for (let i = 0; i < 10 && ids.size < count; i++) {
+                const generated = await generator.generate(count - ids.size, length);
+                if (generated.length === 0) {
+                    break;
+                }
+
+                for (const shortId of generated) {
+                    if (!isOffensive(shortId)) {
+                        ids.add(shortId);
+                    }
+                }
+            }
+
+            return Array.from(ids);
+        },
+    };
+}
@@ -0,0 +1,28 @@
+/**
+ * Normalise a URL so equivalent URLs can be compared,
+ * e.g. `HTTPS://Poto.nz:443/a?b=2&a=1` and `https://poto.nz/a?a=1&b=2`.
+ * Returns the trimmed input if it is not a valid absolute URL
+ */
+export function normaliseUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    }
+    catch {
+        return url.trim();
+    }
+
+    // URL already lowercases the scheme and host, drops default ports and resolves the path
+    parsed.searchParams.sort();
+
+    return parsed.href;
+}
+
+/**
+ * Get a SHA-256 hex digest of the normalised URL, useful to index target URLs
+ */
+export async function hashTargetUrl(url: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normaliseUrl(url)));
+
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -1,11 +1,9 @@
-export const ALLOWED_CHARS = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+import { BASE62_ALPHABET, generateSecureRandomString } from "./shortIds";
+
+export const ALLOWED_CHARS = BASE62_ALPHABET;
 
 export function generateRandomShortId(length = 4) {
-    let result = "";
-    for (let i = 0; i < length; i++) {
-        result += ALLOWED_CHARS.charAt(Math.floor(Math.random() * ALLOWED_CHARS.length));
-    }
-    return result;
+    return generateSecureRandomString(length, ALLOWED_CHARS);
 }
 
 export function generateUniqueShortIds(count: number, length: number): string[] {
@@ -0,0 +1,139 @@
+import { InvalidShortIdError, InvalidTargetUrlError } from "./errors";
+import { ALLOWED_CHARS } from "./utils";
+
+export interface ICustomShortIdOptions {
+    /**
+     * Characters a custom short ID may contain.
+     * Defaults to alphanumeric characters, `-` and `_`
+     */
+    allowedChars?: string;
+    /**
+     * Defaults to `3`
+     */
+    minLength?: number;
+    /**
+     * Defaults to `64`
+     */
+    maxLength?: number;
+    /**
+     * Short IDs that cannot be requested, e.g. routes used by your app.
+     * Compared case-insensitively. Defaults to none
+     */
+    reservedWords?: string[];
+}
+
+/**
+ * Make sure a requested short ID is allowed
+ * @throws InvalidShortIdError if it is not
+ */
+export function validateCustomShortId(shortId: string, options: ICustomShortIdOptions = {}) {
+    const {
+        allowedChars = ALLOWED_CHARS + "-_",
+        minLength = 3,
+        maxLength = 64,
+        reservedWords = [],
+    } = options;
+
+    if (shortId.length < minLength || shortId.length > maxLength) {
+        throw new InvalidShortIdError(shortId, "length", `Short ID must be between ${minLength} and ${maxLength} characters`);
+    }
+
+    for (const char of shortId) {
+        if (!allowedChars.includes(char)) {
+            throw new InvalidShortIdError(shortId, "characters", `Short ID contains a disallowed character "${char}"`);
+        }
+    }
+
+    const lowerCased = shortId.toLowerCase();
+    if (reservedWords.some(word => word.toLowerCase() === lowerCased)) {
+        throw new InvalidShortIdError(shortId, "reserved", `Short ID "${shortId}" is reserved`);
+    }
+}
+
+export interface ITargetUrlValidationOptions {
+    /**
+     * Defaults to `["http:", "https:"]`
+     */
+    allowedProtocols?: string[];
+    /**
+     * Defaults to `65535`, the size of the target URL column in the Cloudflare D1 backend
+     */
+    maxLength?: number;
+    /**
+     * Only allow target URLs on these domains or their subdomains. Defaults to all domains
+     */
+    allowedDomains?: string[];
+    /**
+     * Reject target URLs on these domains or their subdomains
+     */
+    deniedDomains?: string[];
+    /**
+     * Domains serving the short links.
+     * Target URLs pointing to them are rejected to avoid redirect loops
+     */
+    shortLinkDomains?: string[];
+    /**
+     * Custom check run after all other rules pass, e.g. a local blocklist
+     * @returns `true` to accept, `false` or a message to reject
+     */
+    validator?: (url: URL) => boolean | string | Promise<boolean | string>;
+}
+
+function matchesDomain(host: string, domains: string[]): boolean {
+    return domains.some((domain) => {
+        const lowerCased = domain.toLowerCase();
+        return host === lowerCased || host.endsWith(`.${lowerCased}`);
+    });
+}
+
+/**
+ * Make sure a target URL is allowed
+ * @throws InvalidTargetUrlError if it is not
+ */
+export async function validateTargetUrl(targetUrl: string, options: ITargetUrlValidationOptions = {}) {
+    const {
+        allowedProtocols = ["http:", "https:"],
+        maxLength = 65535,
+        allowedDomains,
+        deniedDomains = [],
+        shortLinkDomains = [],
+        validator,
+    } = options;
+
+    if (targetUrl.length > maxLength) {
+        throw new InvalidTargetUrlError(targetUrl, "length", `Target URL must be at most ${maxLength} characters`);
+    }
+
+    let url: URL;
+    try {
+        url = new URL(targetUrl);
+    }
+    catch {
+        throw new InvalidTargetUrlError(targetUrl, "invalid_url", "Target URL must be an absolute URL");
+    }
+
+    if (!allowedProtocols.includes(url.protocol)) {
+        throw new InvalidTargetUrlError(targetUrl, "protocol", `Protocol "${url.protocol}" is not allowed`);
+    }
+
+    const host = url.hostname.toLowerCase();
+
+    if (matchesDomain(host, shortLinkDomains)) {
+        throw new InvalidTargetUrlError(targetUrl, "self_reference", "Target URL cannot point to a short link");
+    }
+
+    if (allowedDomains && !matchesDomain(host, allowedDomains)) {
+        throw new InvalidTargetUrlError(targetUrl, "domain_not_allowed", `Domain "${host}" is not allowed`);
+    }
+
+    if (matchesDomain(host, deniedDomains)) {
+        throw new InvalidTargetUrlError(targetUrl, "domain_denied", `Domain "${host}" is denied`);
+    }
+
+    if (validator) {
+        const result = await validator(url);
+        if (result !== true) {
+            throw new InvalidTargetUrlError(targetUrl, "custom", typeof result === "string" ? result : "Target URL is not allowed");
+        }
+    }
+}
@@ -0,0 +1,202 @@
+import { beforeEach, expect, type Mock, mock, test } from "bun:test";
+import { BackendUnavailableError, createManager, type IShortLinksManager, type IShortLinksManagerBackend, type IVisitEvent, type ShortLinksError } from "src";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+let map: Map<string, { targetUrl: string; lastAccessedAt: Date }>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, { targetUrl: string; lastAccessedAt: Date }> };
+
+let recordVisit: Mock<(event: IVisitEvent) => void>;
+let shortIdLength = 3;
+let manager: IShortLinksManager;
+
+beforeEach(async () => {
+    map = new Map<string, { targetUrl: string; lastAccessedAt: Date }>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        createShortLink(shortId: string, targetUrl: string): void {
+            if (map.has(shortId)) {
+                throw new Error("short id not found");
+            }
+
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: new Date(),
+            });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(maxAge: number): string[] {
+            // Delete entries older than maxAge days
+            const now = new Date();
+            const cutoffDate = new Date(now);
+            cutoffDate.setDate(now.getDate() - maxAge);
+
+            const deletedShortIds = [];
+
+            for (const [shortId, data] of map.entries()) {
+                if (data.lastAccessedAt < cutoffDate) {
+                    map.delete(shortId);
+                    deletedShortIds.push(shortId);
+                }
+            }
+
+            return deletedShortIds;
+        },
+    };
+
+    recordVisit = mock(() => {});
+
+    manager = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        analytics: {
+            recordVisit,
+        },
+    });
+});
+
+test("should record a visit with the provided context", async () => {
+    const shortId = await manager.createShortLink("https://example.com");
+
+    await manager.getTargetUrl(shortId, {
+        referrer: "https://google.com",
+        userAgent: "Mozilla/5.0",
+        country: "NZ",
+        metadata: { campaign: "summer" },
+    });
+
+    expect(recordVisit).toHaveBeenCalledTimes(1);
+
+    const event = recordVisit.mock.calls[0]![0];
+    expect(event).toMatchObject({
+        shortId,
+        referrer: "https://google.com",
+        userAgent: "Mozilla/5.0",
+        country: "NZ",
+        metadata: { campaign: "summer" },
+    });
+    expect(event.timestamp).toBeInstanceOf(Date);
+});
+
+test("should record a visit without context", async () => {
+    const shortId = await manager.createShortLink("https://example.com");
+
+    await manager.getTargetUrl(shortId);
+
+    expect(recordVisit).toHaveBeenCalledTimes(1);
+    expect(recordVisit.mock.calls[0]![0].shortId).toBe(shortId);
+});
+
+test("should not record a visit if the short ID is not found", async () => {
+    await manager.getTargetUrl("nonexistent", { referrer: "https://google.com" });
+
+    expect(recordVisit).not.toHaveBeenCalled();
+});
+
+test("should queue recording with waitUntil", async () => {
+    const waitUntil = mock((promise: Promise<unknown>) => {
+        void promise;
+    });
+
+    const managerWithWaitUntil = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        waitUntil,
+        analytics: {
+            recordVisit,
+        },
+        options: {
+            shouldUpdateLastAccessOnGet: false,
+        },
+    });
+
+    const shortId = await managerWithWaitUntil.createShortLink("https://example.com");
+    await managerWithWaitUntil.getTargetUrl(shortId);
+
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    await waitUntil.mock.calls[0]![0];
+    expect(recordVisit).toHaveBeenCalledTimes(1);
+});
+
+test("should report failed visits instead of failing the redirect", async () => {
+    const errors: ShortLinksError[] = [];
+    const waitUntilPromises: Promise<unknown>[] = [];
+    const failingAnalytics = {
+        recordVisit: () => {
+            throw new Error("analytics down");
+        },
+    };
+
+    const managerWithoutWaitUntil = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        analytics: failingAnalytics,
+        options: {
+            onAnalyticsError: (error) => {
+                errors.push(error);
+            },
+        },
+    });
+    const shortId = await managerWithoutWaitUntil.createShortLink("https://example.com");
+
+    expect(await managerWithoutWaitUntil.getTargetUrl(shortId)).toBe("https://example.com");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(BackendUnavailableError);
+    expect((errors[0]!.cause as Error).message).toBe("analytics down");
+
+    const managerWithWaitUntil = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        waitUntil: (promise) => {
+            waitUntilPromises.push(promise);
+        },
+        analytics: failingAnalytics,
+        options: {
+            shouldUpdateLastAccessOnGet: false,
+        },
+    });
+
+    expect(await managerWithWaitUntil.getTargetUrl(shortId)).toBe("https://example.com");
+    // Handed to waitUntil already handled
+    expect(await Promise.all(waitUntilPromises)).toEqual([undefined]);
+});
@@ -59,6 +59,18 @@ beforeEach(async () => {
         checkShortIdsExist(shortIds: string[]): string[] {
             return shortIds.filter(id => map.has(id));
         },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
         updateShortLinkLastAccessTime(shortId: string): void {
             const value = map.get(shortId);
             if (value) {
@@ -255,3 +267,75 @@ test("should write to all caches when creating a short link with multiple caches
     expect(firstCacheValue).toBe(url);
     expect(secondCacheValue).toBe(url);
 });
+
+test("should rewrite all caches when updating the target URL", async () => {
+    const firstCache = new InMemoryCache();
+    const secondCache = new InMemoryCache();
+
+    const managerWithCaches = await createManager({
+        backend: dummyBackend,
+        caches: [firstCache, secondCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    const shortId = await managerWithCaches.createShortLink("https://example.com/old");
+    await managerWithCaches.updateTargetUrl(shortId, "https://example.com/new");
+
+    expect(firstCache.get(shortId)).toBe("https://example.com/new");
+    expect(secondCache.get(shortId)).toBe("https://example.com/new");
+    expect(await managerWithCaches.getTargetUrl(shortId)).toBe("https://example.com/new");
+});
+
+test("should not write to caches when updating a non-existent short ID", async () => {
+    await manager.updateTargetUrl("nonexistent", "https://example.com");
+
+    expect(dummyCache.get("nonexistent")).toBeNull();
+});
+
+test("should remove from all caches when deleting a short link", async () => {
+    const firstCache = new InMemoryCache();
+    const secondCache = new InMemoryCache();
+
+    const managerWithCaches = await createManager({
+        backend: dummyBackend,
+        caches: [firstCache, secondCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    const shortId = await managerWithCaches.createShortLink("https://example.com");
+    await managerWithCaches.deleteShortLink(shortId);
+
+    expect(firstCache.get(shortId)).toBeNull();
+    expect(secondCache.get(shortId)).toBeNull();
+    expect(await managerWithCaches.getTargetUrl(shortId)).toBeNull();
+});
+
+test("should prefix cache keys with the backend cache key prefix", async () => {
+    const sharedCache = new InMemoryCache();
+
+    const managerWithPrefix = await createManager({
+        backend: { ...dummyBackend, cacheKeyPrefix: "brand_a_" },
+        caches: [sharedCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    const shortId = await managerWithPrefix.createShortLink("https://example.com");
+    expect(sharedCache.get(shortId)).toBeNull();
+    expect(sharedCache.get(`brand_a_:${shortId}`)).toBe("https://example.com");
+
+    sharedCache.set(shortId, "https://example.com/other-brand");
+    expect(await managerWithPrefix.getTargetUrl(shortId)).toBe("https://example.com");
+
+    await managerWithPrefix.deleteShortLink(shortId);
+    expect(sharedCache.get(`brand_a_:${shortId}`)).toBeNull();
+    expect(sharedCache.get(shortId)).toBe("https://example.com/other-brand");
+});
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, expect, setSystemTime, test } from "bun:test";
+import { CacheError, createManager, type ICache, type IShortLinksManagerBackend } from "src";
+
+let map: Map<string, string>;
+let backend: IShortLinksManagerBackend;
+let cacheErrors: [error: CacheError, cache: ICache][];
+
+function createFailingCache(overrides: Partial<ICache> = {}): ICache {
+    return {
+        get: () => {
+            throw new Error("KV is down");
+        },
+        set: () => {
+            throw new Error("KV is down");
+        },
+        ...overrides,
+    };
+}
+
+function createTestManager(cache: ICache) {
+    return createManager({
+        backend,
+        caches: [cache],
+        shortIdLength: 6,
+        options: {
+            cacheCooldown: 60,
+            onCacheError: (error, cache) => {
+                cacheErrors.push([error, cache]);
+            },
+        },
+    });
+}
+
+beforeEach(() => {
+    map = new Map<string, string>([["abc", "https://poto.nz"]]);
+    cacheErrors = [];
+
+    backend = {
+        getTargetUrl: shortId => map.get(shortId) ?? null,
+        createShortLink: (shortId, targetUrl) => {
+            map.set(shortId, targetUrl);
+        },
+        checkShortIdsExist: shortIds => shortIds.filter(id => map.has(id)),
+        updateTargetUrl: () => false,
+        deleteShortLink: shortId => map.delete(shortId),
+        updateShortLinkLastAccessTime: () => {},
+        cleanUnusedLinks: () => [],
+    };
+});
+
+afterEach(() => {
+    setSystemTime();
+});
+
+test("should read from the backend when the cache fails", async () => {
+    const cache = createFailingCache();
+    const manager = await createTestManager(cache);
+
+    expect(await manager.getTargetUrl("abc")).toBe("https://poto.nz");
+    expect(cacheErrors).toHaveLength(1);
+    expect(cacheErrors[0]![0]).toBeInstanceOf(CacheError);
+    expect((cacheErrors[0]![0].cause as Error).message).toBe("KV is down");
+    expect(cacheErrors[0]![1]).toBe(cache);
+});
+
+test("should create links when the cache fails", async () => {
+    const manager = await createTestManager(createFailingCache());
+
+    const shortId = await manager.createShortLink("https://poto.nz/created");
+
+    expect(map.get(shortId)).toBe("https://poto.nz/created");
+    expect(cacheErrors).toHaveLength(1);
+});
+
+test("should still fail on backend errors", async () => {
+    backend.getTargetUrl = () => {
+        throw new Error("D1 is down");
+    };
+    const manager = await createTestManager({ get: () => null, set: () => {} });
+
+    await expect(manager.getTargetUrl("abc")).rejects.toThrow("D1 is down");
+});
+
+test("should skip a failing cache during the cool-down", async () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    let gets = 0;
+    const cache = createFailingCache({
+        get: () => {
+            ++gets;
+            throw new Error("KV is down");
+        },
+    });
+    const manager = await createTestManager(cache);
+
+    await manager.getTargetUrl("abc");
+    await manager.getTargetUrl("abc");
+    // The circuit is shared by managers using the same cache
+    await (await createTestManager(cache)).getTargetUrl("abc");
+    expect(gets).toBe(1);
+    expect(cacheErrors).toHaveLength(1);
+
+    setSystemTime(new Date(now.getTime() + 61_000));
+    expect(await manager.getTargetUrl("abc")).toBe("https://poto.nz");
+    expect(gets).toBe(2);
+});
+
+test("should retry a failed init after the cool-down", async () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    let inits = 0;
+    const entries = new Map<string, string>();
+    const cache: ICache = {
+        init: () => {
+            if (++inits === 1) {
+                throw new Error("KV is not ready");
+            }
+        },
+        get: key => entries.get(key) ?? null,
+        set: (key, value) => {
+            entries.set(key, value);
+        },
+    };
+    const manager = await createTestManager(cache);
+
+    expect(await manager.getTargetUrl("abc")).toBe("https://poto.nz");
+    expect(cache.initialised).toBeFalsy();
+
+    setSystemTime(new Date(now.getTime() + 61_000));
+    expect(await manager.getTargetUrl("abc")).toBe("https://poto.nz");
+    expect(inits).toBe(2);
+    expect(cache.initialised).toBe(true);
+    expect(entries.size).toBe(1);
+});
+
+test("should invalidate deleted links during the cool-down", async () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    let isDown = false;
+    const entries = new Map<string, string>();
+    const cache: ICache = {
+        get: (key) => {
+            if (isDown) {
+                throw new Error("KV is down");
+            }
+            return entries.get(key) ?? null;
+        },
+        set: (key, value) => {
+            entries.set(key, value);
+        },
+        delete: (key) => {
+            entries.delete(key);
+        },
+    };
+    const manager = await createTestManager(cache);
+
+    expect(await manager.getTargetUrl("abc")).toBe("https://poto.nz");
+
+    isDown = true;
+    expect(await manager.getTargetUrl("abc")).toBe("https://poto.nz");
+    isDown = false;
+
+    await manager.deleteShortLink("abc");
+
+    setSystemTime(new Date(now.getTime() + 61_000));
+    expect(await manager.getTargetUrl("abc")).toBeNull();
+});
+
+test("should share the cool-down between caches of the same storage", async () => {
+    let gets = 0;
+    const storage = {};
+    function createCache(): ICache {
+        return createFailingCache({
+            identity: storage,
+            get: () => {
+                ++gets;
+                throw new Error("KV is down");
+            },
+        });
+    }
+
+    // Like a handler creating the cache for every request
+    expect(await (await createTestManager(createCache())).getTargetUrl("abc")).toBe("https://poto.nz");
+    expect(await (await createTestManager(createCache())).getTargetUrl("abc")).toBe("https://poto.nz");
+
+    expect(gets).toBe(1);
+    expect(cacheErrors).toHaveLength(1);
+});
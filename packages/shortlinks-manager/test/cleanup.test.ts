@@ -0,0 +1,150 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import { createManager, type IShortLinkAttributes, type IShortLinksManager, type IShortLinksManagerBackend } from "src";
+import type { ICache } from "src/cache";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+// Create a simple in-memory cache for testing
+class InMemoryCache implements ICache {
+    private cache: Map<string, string> = new Map();
+
+    get(shortId: string): string | null {
+        return this.cache.get(shortId) || null;
+    }
+
+    set(shortId: string, targetUrl: string): void {
+        this.cache.set(shortId, targetUrl);
+    }
+
+    delete(shortId: string) {
+        this.cache.delete(shortId);
+    }
+}
+
+type Entry = { targetUrl: string; unused: boolean; expired: boolean };
+
+let map: Map<string, Entry>;
+let cleanCalls: number;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, Entry> };
+let dummyCache: InMemoryCache;
+let manager: IShortLinksManager;
+let waitUntilPromises: Promise<unknown>[];
+
+function removeMatching(predicate: (entry: Entry) => boolean, limit = Infinity): string[] {
+    ++cleanCalls;
+    const removed: string[] = [];
+
+    for (const [shortId, entry] of map.entries()) {
+        if (removed.length >= limit) {
+            break;
+        }
+
+        if (predicate(entry)) {
+            map.delete(shortId);
+            removed.push(shortId);
+        }
+    }
+
+    return removed;
+}
+
+function addLinks(prefix: string, count: number, entry: Omit<Entry, "targetUrl">) {
+    for (let i = 0; i < count; i++) {
+        const shortId = `${prefix}${i}`;
+        map.set(shortId, { ...entry, targetUrl: `https://example.com/${shortId}` });
+        dummyCache.set(shortId, `https://example.com/${shortId}`);
+    }
+}
+
+beforeEach(async () => {
+    map = new Map<string, Entry>();
+    cleanCalls = 0;
+    waitUntilPromises = [];
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            return map.get(shortId)?.targetUrl ?? null;
+        },
+        createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): void {
+            map.set(shortId, { targetUrl, unused: false, expired: !!attributes?.expiresAt });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl: () => false,
+        deleteShortLink: shortId => map.delete(shortId),
+        updateShortLinkLastAccessTime(): void {},
+        cleanUnusedLinks(_maxAge: number, limit?: number): string[] {
+            return removeMatching(entry => entry.unused, limit);
+        },
+        cleanExpiredLinks(limit?: number): string[] {
+            return removeMatching(entry => entry.expired, limit);
+        },
+    };
+
+    dummyCache = new InMemoryCache();
+
+    manager = await createManager({
+        backend: dummyBackend,
+        caches: [dummyCache],
+        shortIdLength: 3,
+        onShortIdLengthUpdated: () => {},
+        waitUntil: (promise) => {
+            waitUntilPromises.push(promise);
+        },
+    });
+});
+
+test("should remove expired links in batches", async () => {
+    addLinks("expired", 25, { unused: false, expired: true });
+    addLinks("valid", 5, { unused: true, expired: false });
+
+    const result = await manager.runCleanup({ batchSize: 10 });
+
+    expect(result).toEqual({ unusedLinks: 0, expiredLinks: 25, purgedLinks: 0, hasMore: false });
+    expect(cleanCalls).toBe(3);
+    expect(map.size).toBe(5);
+});
+
+test("should remove unused links when maxAge is set", async () => {
+    addLinks("expired", 3, { unused: false, expired: true });
+    addLinks("unused", 12, { unused: true, expired: false });
+    addLinks("valid", 2, { unused: false, expired: false });
+
+    const result = await manager.runCleanup({ maxAge: 30, batchSize: 5 });
+
+    expect(result).toEqual({ unusedLinks: 12, expiredLinks: 3, purgedLinks: 0, hasMore: false });
+    expect(map.size).toBe(2);
+});
+
+test("should stop after maxBatches", async () => {
+    addLinks("expired", 30, { unused: false, expired: true });
+
+    const result = await manager.runCleanup({ batchSize: 10, maxBatches: 2 });
+
+    expect(result).toEqual({ unusedLinks: 0, expiredLinks: 20, purgedLinks: 0, hasMore: true });
+    expect(map.size).toBe(10);
+});
+
+test("should evict removed links from caches through waitUntil", async () => {
+    addLinks("expired", 3, { unused: false, expired: true });
+
+    await manager.runCleanup();
+
+    expect(waitUntilPromises).toHaveLength(1);
+    await Promise.all(waitUntilPromises);
+
+    for (let i = 0; i < 3; i++) {
+        expect(dummyCache.get(`expired${i}`)).toBeNull();
+    }
+});
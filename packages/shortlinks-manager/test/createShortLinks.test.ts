@@ -0,0 +1,277 @@
+import { beforeEach, expect, mock, spyOn, test } from "bun:test";
+import { BackendUnavailableError, createManager, type IShortLinksManager, type IShortLinksManagerBackend, ShortIdConflictError, ShortIdExhaustedError } from "src";
+import type { ICache } from "src/cache";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+// Create a simple in-memory cache for testing
+class InMemoryCache implements ICache {
+    private cache: Map<string, string> = new Map();
+
+    get(shortId: string): string | null {
+        return this.cache.get(shortId) || null;
+    }
+
+    set(shortId: string, targetUrl: string): void {
+        this.cache.set(shortId, targetUrl);
+    }
+}
+
+let map: Map<string, { targetUrl: string; lastAccessedAt: Date }>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, { targetUrl: string; lastAccessedAt: Date }> };
+
+let shortIdLength = 3;
+let dummyCache: InMemoryCache;
+let manager: IShortLinksManager;
+
+beforeEach(async () => {
+    map = new Map<string, { targetUrl: string; lastAccessedAt: Date }>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        createShortLink(shortId: string, targetUrl: string): void {
+            if (map.has(shortId)) {
+                throw new Error("short id not found");
+            }
+
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: new Date(),
+            });
+        },
+        createShortLinks(links): string[] {
+            const created: string[] = [];
+            for (const { shortId, targetUrl } of links) {
+                if (!map.has(shortId)) {
+                    map.set(shortId, { targetUrl, lastAccessedAt: new Date() });
+                    created.push(shortId);
+                }
+            }
+            return created;
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(maxAge: number): string[] {
+            // Delete entries older than maxAge days
+            const now = new Date();
+            const cutoffDate = new Date(now);
+            cutoffDate.setDate(now.getDate() - maxAge);
+
+            const deletedShortIds = [];
+
+            for (const [shortId, data] of map.entries()) {
+                if (data.lastAccessedAt < cutoffDate) {
+                    map.delete(shortId);
+                    deletedShortIds.push(shortId);
+                }
+            }
+
+            return deletedShortIds;
+        },
+    };
+
+    dummyCache = new InMemoryCache();
+
+    manager = await createManager({
+        backend: dummyBackend,
+        caches: [dummyCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+});
+
+test("should create a short link for each target URL in order", async () => {
+    const urls = Array.from({ length: 120 }, (_, i) => `https://example.com/${i}`);
+
+    const results = await manager.createShortLinks(urls);
+
+    expect(results).toHaveLength(urls.length);
+    expect(new Set(results.map(r => r.success && r.shortId)).size).toBe(urls.length);
+
+    for (let i = 0; i < urls.length; i++) {
+        const result = results[i]!;
+        expect(result).toMatchObject({ targetUrl: urls[i], success: true });
+        if (result.success) {
+            expect(dummyBackend.map.get(result.shortId)!.targetUrl).toBe(urls[i]!);
+            expect(dummyCache.get(result.shortId)).toBe(urls[i]!);
+        }
+    }
+});
+
+test("should insert in batches", async () => {
+    const spy = spyOn(dummyBackend, "createShortLinks");
+
+    await manager.createShortLinks(Array.from({ length: 120 }, (_, i) => `https://example.com/${i}`));
+
+    expect(spy).toHaveBeenCalledTimes(3);
+    expect(spy.mock.calls.map(call => call[0].length)).toEqual([50, 50, 20]);
+});
+
+test("should retry links whose short ID was taken in the meantime", async () => {
+    let takenShortId = "";
+    const originalCreateShortLinks = dummyBackend.createShortLinks!;
+    spyOn(dummyBackend, "createShortLinks").mockImplementation((links) => {
+        // Simulate another worker taking the second short ID in the meantime
+        if (!takenShortId) {
+            takenShortId = links[1]!.shortId;
+            map.set(takenShortId, { targetUrl: "https://example.com/other", lastAccessedAt: new Date() });
+        }
+        return originalCreateShortLinks(links);
+    });
+
+    const results = await manager.createShortLinks(["https://example.com/1", "https://example.com/2", "https://example.com/3"]);
+
+    expect(results.every(r => r.success)).toBeTrue();
+    expect(results[1]!.success && results[1]!.shortId).not.toBe(takenShortId);
+    expect(map.get(takenShortId)!.targetUrl).toBe("https://example.com/other");
+});
+
+test("should report exhausted short IDs without aborting the other links once out of retries", async () => {
+    const originalCreateShortLinks = dummyBackend.createShortLinks!;
+    spyOn(dummyBackend, "createShortLinks").mockImplementation((links) => {
+        // Simulate other workers always taking the short ID of the second link
+        const contested = links.find(link => link.targetUrl === "https://example.com/2");
+        if (contested) {
+            map.set(contested.shortId, { targetUrl: "https://example.com/other", lastAccessedAt: new Date() });
+        }
+        return originalCreateShortLinks(links);
+    });
+
+    const results = await manager.createShortLinks(["https://example.com/1", "https://example.com/2", "https://example.com/3"]);
+
+    expect(results[0]!.success).toBeTrue();
+    expect(results[1]!.success).toBeFalse();
+    const error = !results[1]!.success ? results[1]!.error : undefined;
+    expect(error).toBeInstanceOf(ShortIdExhaustedError);
+    expect(error!.cause).toBeInstanceOf(ShortIdConflictError);
+    expect(results[2]!.success).toBeTrue();
+});
+
+test("should report a failed batch without aborting the other batches", async () => {
+    let calls = 0;
+    const originalCreateShortLinks = dummyBackend.createShortLinks!;
+    spyOn(dummyBackend, "createShortLinks").mockImplementation((links) => {
+        if (++calls === 1) {
+            throw new Error("D1 is down");
+        }
+        return originalCreateShortLinks(links);
+    });
+
+    const results = await manager.createShortLinks(Array.from({ length: 60 }, (_, i) => `https://example.com/${i}`));
+
+    expect(results.slice(0, 50).every(r => !r.success && r.error instanceof BackendUnavailableError && (r.error.cause as Error).message === "D1 is down")).toBeTrue();
+    expect(results.slice(50).every(r => r.success)).toBeTrue();
+});
+
+test("should fall back to createShortLink if the backend does not support bulk creation", async () => {
+    const singleBackend = { ...dummyBackend, createShortLinks: undefined };
+    const spy = spyOn(singleBackend, "createShortLink");
+
+    const singleManager = await createManager({
+        backend: singleBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    const results = await singleManager.createShortLinks(["https://example.com/1", "https://example.com/2"]);
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(results.every(r => r.success)).toBeTrue();
+});
+
+test("should queue cache writes with waitUntil", async () => {
+    const waitUntil = mock((promise: Promise<unknown>) => {
+        void promise;
+    });
+
+    const managerWithWaitUntil = await createManager({
+        backend: dummyBackend,
+        caches: [dummyCache],
+        waitUntil,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    const results = await managerWithWaitUntil.createShortLinks(["https://example.com/1", "https://example.com/2"]);
+
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    await waitUntil.mock.calls[0]![0];
+    for (const result of results) {
+        expect(result.success && dummyCache.get(result.shortId)).toBe(result.targetUrl);
+    }
+});
+
+test("should reuse existing short IDs when enabled", async () => {
+    const reuseBackend = {
+        ...dummyBackend,
+        findShortIdByTargetUrl(targetUrl: string): string | null {
+            for (const [shortId, data] of map.entries()) {
+                if (data.targetUrl === targetUrl) {
+                    return shortId;
+                }
+            }
+            return null;
+        },
+    };
+
+    const reuseManager = await createManager({
+        backend: reuseBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            reuseExistingForSameTarget: true,
+        },
+    });
+
+    const existingShortId = await reuseManager.createShortLink("https://example.com/existing");
+    const results = await reuseManager.createShortLinks([
+        "https://example.com/existing",
+        "https://example.com/new",
+        "https://example.com/new",
+    ]);
+
+    expect(results[0]).toMatchObject({ success: true, shortId: existingShortId });
+    expect(results[1]!.success).toBeTrue();
+    expect(results[2]).toEqual(results[1]!);
+    expect(map.size).toBe(2);
+});
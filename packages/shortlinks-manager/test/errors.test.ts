@@ -0,0 +1,144 @@
+import { expect, test } from "bun:test";
+import {
+    BackendUnavailableError,
+    CacheError,
+    createManager,
+    type ICache,
+    InvalidTargetUrlError,
+    type IShortLinksManagerBackend,
+    ShortIdConflictError,
+    ShortIdExhaustedError,
+    ShortLinksError,
+    UnsupportedFeatureError,
+    ValidationError,
+    wrapErrors,
+} from "src";
+
+function createBackend(overrides: Partial<IShortLinksManagerBackend> = {}): IShortLinksManagerBackend {
+    const map = new Map<string, string>();
+
+    return {
+        getTargetUrl: shortId => map.get(shortId) ?? null,
+        createShortLink(shortId, targetUrl) {
+            map.set(shortId, targetUrl);
+        },
+        checkShortIdsExist: shortIds => shortIds.filter(shortId => map.has(shortId)),
+        updateTargetUrl: () => false,
+        deleteShortLink: () => false,
+        updateShortLinkLastAccessTime: () => {},
+        cleanUnusedLinks: () => [],
+        ...overrides,
+    };
+}
+
+test("errors should have stable codes and share a base class", () => {
+    const errors: [ShortLinksError, string][] = [
+        [new ShortIdConflictError("abc"), "SHORT_ID_CONFLICT"],
+        [new ShortIdExhaustedError(), "SHORT_ID_EXHAUSTED"],
+        [new ValidationError("invalid"), "VALIDATION_ERROR"],
+        [new InvalidTargetUrlError("ftp://poto.nz", "protocol", "invalid protocol"), "INVALID_TARGET_URL"],
+        [new UnsupportedFeatureError("unsupported"), "UNSUPPORTED_FEATURE"],
+        [new BackendUnavailableError({ cause: new Error("down") }), "BACKEND_UNAVAILABLE"],
+        [new CacheError({ cause: new Error("down") }), "CACHE_ERROR"],
+    ];
+
+    for (const [error, code] of errors) {
+        expect(error).toBeInstanceOf(ShortLinksError);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.code).toBe(code);
+    }
+
+    expect(new InvalidTargetUrlError("ftp://poto.nz", "protocol", "invalid protocol")).toBeInstanceOf(ValidationError);
+});
+
+test("should wrap backend errors and keep the original as cause", async () => {
+    const cause = new Error("D1_ERROR: network connection lost");
+    const manager = await createManager({
+        backend: createBackend({
+            getTargetUrl: async () => {
+                throw cause;
+            },
+            deleteShortLink: () => {
+                throw cause;
+            },
+        }),
+        shortIdLength: 4,
+    });
+
+    const error = await manager.getTargetUrl("abc").catch(err => err);
+    expect(error).toBeInstanceOf(BackendUnavailableError);
+    expect(error.code).toBe("BACKEND_UNAVAILABLE");
+    expect(error.cause).toBe(cause);
+
+    // Synchronous errors are wrapped too
+    await expect(manager.deleteShortLink("abc")).rejects.toBeInstanceOf(BackendUnavailableError);
+});
+
+test("should keep errors thrown by the backend that are already structured", async () => {
+    const manager = await createManager({
+        backend: createBackend({
+            createShortLink: (shortId) => {
+                throw new ShortIdConflictError(shortId);
+            },
+            checkShortIdsExist: () => [],
+        }),
+        shortIdLength: 4,
+    });
+
+    await expect(manager.createShortLink("https://poto.nz", { shortId: "taken" })).rejects.toBeInstanceOf(ShortIdConflictError);
+});
+
+test("should wrap cache errors", async () => {
+    const cause = new Error("KV is down");
+    const cache: ICache = {
+        get: () => {
+            throw cause;
+        },
+        set: () => {},
+    };
+    const errors: CacheError[] = [];
+    const manager = await createManager({
+        backend: createBackend(),
+        caches: [cache],
+        shortIdLength: 4,
+        options: {
+            onCacheError: (error) => {
+                errors.push(error);
+            },
+        },
+    });
+
+    expect(await manager.getTargetUrl("abc")).toBeNull();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(CacheError);
+    expect(errors[0]!.cause).toBe(cause);
+});
+
+test("should throw structured errors for invalid options and unsupported features", async () => {
+    const manager = await createManager({ backend: createBackend(), shortIdLength: 4 });
+
+    await expect(manager.createShortLink("https://poto.nz", { maxClicks: 0 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(manager.listShortLinks()).rejects.toBeInstanceOf(UnsupportedFeatureError);
+});
+
+test("should throw ShortIdExhaustedError when no short ID is left", async () => {
+    const manager = await createManager({
+        backend: createBackend({ checkShortIdsExist: shortIds => shortIds }),
+        shortIdLength: 1,
+    });
+
+    await expect(manager.createShortLink("https://poto.nz")).rejects.toBeInstanceOf(ShortIdExhaustedError);
+});
+
+test("wrapErrors should keep non-function properties and the this of methods", () => {
+    const target = {
+        value: 1,
+        getValue() {
+            return this.value;
+        },
+    };
+    const wrapped = wrapErrors(target, cause => new BackendUnavailableError({ cause }));
+
+    expect(wrapped.value).toBe(1);
+    expect(wrapped.getValue()).toBe(1);
+});
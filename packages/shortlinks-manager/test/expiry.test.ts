@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, expect, mock, setSystemTime, test } from "bun:test";
+import { createManager, type IShortLinkAttributes, type IShortLinksManager, type IShortLinksManagerBackend, ValidationError } from "src";
+import type { ICache } from "src/cache";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+// Create a simple in-memory cache for testing
+class InMemoryCache implements ICache {
+    private cache: Map<string, string> = new Map();
+
+    get(shortId: string): string | null {
+        return this.cache.get(shortId) || null;
+    }
+
+    set(shortId: string, targetUrl: string): void {
+        this.cache.set(shortId, targetUrl);
+    }
+
+    delete(shortId: string) {
+        this.cache.delete(shortId);
+    }
+}
+
+type Entry = { targetUrl: string; lastAccessedAt: Date; expiresAt: Date | null };
+
+let map: Map<string, Entry>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, Entry> };
+let dummyCache: InMemoryCache;
+let manager: IShortLinksManager;
+let shortIdLength = 3;
+
+beforeEach(async () => {
+    map = new Map<string, Entry>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        getShortLink(shortId: string) {
+            const value = map.get(shortId);
+            return value ? { shortId, targetUrl: value.targetUrl, expiresAt: value.expiresAt } : null;
+        },
+        createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): void {
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: new Date(),
+                expiresAt: attributes?.expiresAt ?? null,
+            });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(): string[] {
+            return [];
+        },
+        cleanExpiredLinks(): string[] {
+            const now = new Date();
+            const deletedShortIds = [];
+
+            for (const [shortId, data] of map.entries()) {
+                if (data.expiresAt && data.expiresAt <= now) {
+                    map.delete(shortId);
+                    deletedShortIds.push(shortId);
+                }
+            }
+
+            return deletedShortIds;
+        },
+    };
+
+    dummyCache = new InMemoryCache();
+
+    manager = await createManager({
+        backend: dummyBackend,
+        caches: [dummyCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+});
+
+afterEach(() => {
+    // Reset the mock date
+    setSystemTime();
+});
+
+test("should store expiresAt in the backend", async () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+    const shortId = await manager.createShortLink("https://example.com", { expiresAt });
+
+    expect(dummyBackend.map.get(shortId)!.expiresAt).toEqual(expiresAt);
+});
+
+test("should convert ttl to an expiry date", async () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    const shortId = await manager.createShortLink("https://example.com", { ttl: 3600 });
+
+    expect(dummyBackend.map.get(shortId)!.expiresAt).toEqual(new Date(now.getTime() + 3600 * 1000));
+});
+
+test("should reject invalid expiry dates and ttls", async () => {
+    await expect(manager.createShortLink("https://example.com", { expiresAt: new Date("garbage") })).rejects.toBeInstanceOf(ValidationError);
+    await expect(manager.createShortLink("https://example.com", { expiresAt: Number.NaN })).rejects.toBeInstanceOf(ValidationError);
+    await expect(manager.createShortLink("https://example.com", { expiresAt: new Date("2000-01-01") })).rejects.toThrow("expiresAt must be in the future");
+
+    for (const ttl of [Number.NaN, Number.POSITIVE_INFINITY, 0, -60]) {
+        await expect(manager.createShortLink("https://example.com", { ttl })).rejects.toBeInstanceOf(ValidationError);
+    }
+
+    expect(dummyBackend.map.size).toBe(0);
+});
+
+test("should not expire links without expiry", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url);
+
+    const futureDate = new Date();
+    futureDate.setFullYear(futureDate.getFullYear() + 10);
+    setSystemTime(futureDate);
+
+    expect(await manager.getTargetUrl(shortId)).toBe(url);
+    // Plain links are cached as is
+    expect(dummyCache.get(shortId)).toBe(url);
+});
+
+test("should return null after the link expired even if the cache still holds it", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { ttl: 60 });
+
+    expect(await manager.getTargetUrl(shortId)).toBe(url);
+    expect(dummyCache.get(shortId)).not.toBeNull();
+
+    setSystemTime(new Date(Date.now() + 61_000));
+
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+    // Expired entry should be evicted from the cache
+    expect(dummyCache.get(shortId)).toBeNull();
+});
+
+test("should return null for expired links found in the backend", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { ttl: 60 });
+    dummyCache.delete(shortId);
+
+    setSystemTime(new Date(Date.now() + 61_000));
+
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+    expect(dummyCache.get(shortId)).toBeNull();
+});
+
+test("should keep the expiry when populating caches from the backend", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { ttl: 60 });
+    dummyCache.delete(shortId);
+
+    expect(await manager.getTargetUrl(shortId)).toBe(url);
+    expect(dummyCache.get(shortId)).not.toBeNull();
+
+    // Backend can no longer tell, cache entry should be enough to enforce the expiry
+    dummyBackend.map.delete(shortId);
+    setSystemTime(new Date(Date.now() + 61_000));
+
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+});
+
+test("cleanExpiredLinks should remove expired links from backend and caches", async () => {
+    const expiredShortId = await manager.createShortLink("https://example.com/expired", { ttl: 60 });
+    const validShortId = await manager.createShortLink("https://example.com/valid", { ttl: 3600 });
+
+    setSystemTime(new Date(Date.now() + 61_000));
+
+    await manager.cleanExpiredLinks();
+
+    expect(dummyBackend.map.has(expiredShortId)).toBeFalse();
+    expect(dummyCache.get(expiredShortId)).toBeNull();
+    expect(dummyBackend.map.has(validShortId)).toBeTrue();
+    expect(dummyCache.get(validShortId)).not.toBeNull();
+});
+
+test("updateTargetUrl should keep the expiry in caches", async () => {
+    const shortId = await manager.createShortLink("https://example.com/old", { ttl: 60 });
+    await manager.updateTargetUrl(shortId, "https://example.com/new");
+
+    expect(await manager.getTargetUrl(shortId)).toBe("https://example.com/new");
+
+    setSystemTime(new Date(Date.now() + 61_000));
+
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+});
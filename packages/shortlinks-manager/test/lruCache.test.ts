@@ -0,0 +1,106 @@
+import { afterEach, expect, setSystemTime, test } from "bun:test";
+import { createManager, LruCache } from "src";
+
+afterEach(() => {
+    // Reset the mock date
+    setSystemTime();
+});
+
+test("should get and delete entries", () => {
+    const cache = new LruCache();
+
+    expect(cache.get("abc")).toBeNull();
+
+    cache.set("abc", "https://example.com");
+    expect(cache.get("abc")).toBe("https://example.com");
+
+    cache.delete("abc");
+    expect(cache.get("abc")).toBeNull();
+});
+
+test("should evict the least recently used entries", () => {
+    const cache = new LruCache({ maxEntries: 2 });
+
+    cache.set("a", "https://example.com/a");
+    cache.set("b", "https://example.com/b");
+    // Reading a makes b the least recently used
+    cache.get("a");
+    cache.set("c", "https://example.com/c");
+
+    expect(cache.get("b")).toBeNull();
+    expect(cache.get("a")).toBe("https://example.com/a");
+    expect(cache.get("c")).toBe("https://example.com/c");
+    expect(cache.getStats()).toMatchObject({ evictions: 1, size: 2 });
+});
+
+test("should not evict when overwriting an entry", () => {
+    const cache = new LruCache({ maxEntries: 1 });
+
+    cache.set("a", "https://example.com/old");
+    cache.set("a", "https://example.com/new");
+
+    expect(cache.get("a")).toBe("https://example.com/new");
+    expect(cache.getStats().evictions).toBe(0);
+});
+
+test("should expire entries after the ttl", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+
+    const cache = new LruCache({ ttl: 60 });
+    cache.set("default", "https://example.com/default");
+    cache.set("custom", "https://example.com/custom", 3600);
+
+    setSystemTime(new Date(now.getTime() + 61_000));
+
+    expect(cache.get("default")).toBeNull();
+    expect(cache.get("custom")).toBe("https://example.com/custom");
+    expect(cache.getStats().size).toBe(1);
+});
+
+test("should count hits and misses", () => {
+    const cache = new LruCache();
+
+    cache.set("a", "https://example.com");
+    cache.get("a");
+    cache.get("a");
+    cache.get("b");
+
+    expect(cache.getStats()).toEqual({ hits: 2, misses: 1, evictions: 0, size: 1 });
+});
+
+test("should reject invalid maxEntries", () => {
+    expect(() => new LruCache({ maxEntries: 0 })).toThrow();
+});
+
+test("should work as the first cache of the manager", async () => {
+    const map = new Map<string, string>();
+    const hotCache = new LruCache({ maxEntries: 10 });
+    const slowCache = new LruCache();
+
+    const manager = await createManager({
+        backend: {
+            getTargetUrl: shortId => map.get(shortId) ?? null,
+            createShortLink: (shortId, targetUrl) => {
+                map.set(shortId, targetUrl);
+            },
+            checkShortIdsExist: shortIds => shortIds.filter(id => map.has(id)),
+            updateTargetUrl: () => false,
+            deleteShortLink: shortId => map.delete(shortId),
+            updateShortLinkLastAccessTime: () => {},
+            cleanUnusedLinks: () => [],
+        },
+        caches: [hotCache, slowCache],
+        shortIdLength: 3,
+        onShortIdLengthUpdated: () => {},
+    });
+
+    const shortId = await manager.createShortLink("https://example.com");
+    hotCache.clear();
+
+    expect(await manager.getTargetUrl(shortId)).toBe("https://example.com");
+    expect(await manager.getTargetUrl(shortId)).toBe("https://example.com");
+
+    expect(hotCache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+    expect(slowCache.getStats()).toMatchObject({ hits: 1, misses: 0 });
+});
@@ -40,6 +40,18 @@ beforeEach(async () => {
         checkShortIdsExist(shortIds: string[]): string[] {
             return shortIds.filter(id => map.has(id));
         },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
         updateShortLinkLastAccessTime(shortId: string): void {
             const value = map.get(shortId);
             if (value) {
@@ -107,6 +119,8 @@ test("createShortLink should handle ID collisions by increasing length", async (
             return [];
         },
         updateShortLinkLastAccessTime: dummyBackend.updateShortLinkLastAccessTime,
+        updateTargetUrl: dummyBackend.updateTargetUrl,
+        deleteShortLink: dummyBackend.deleteShortLink,
         cleanUnusedLinks: dummyBackend.cleanUnusedLinks,
         init: dummyBackend.init,
     };
@@ -233,3 +247,73 @@ test("cleanUnusedLinks should remove entries from caches as well", async () => {
     expect(await cacheManager.getTargetUrl(shortId2)).toBe(url2);
     expect(dummyCache.get(shortId2)).toBe(url2);
 });
+
+test("updateTargetUrl should point the short ID to the new URL", async () => {
+    const shortId = await manager.createShortLink("https://example.com/old");
+
+    expect(await manager.updateTargetUrl(shortId, "https://example.com/new")).toBeTrue();
+    expect(await manager.getTargetUrl(shortId)).toBe("https://example.com/new");
+});
+
+test("updateTargetUrl should return false for non-existent short IDs", async () => {
+    expect(await manager.updateTargetUrl("nonexistent", "https://example.com")).toBeFalse();
+    expect(dummyBackend.map.has("nonexistent")).toBeFalse();
+});
+
+test("deleteShortLink should remove the short link", async () => {
+    const shortId = await manager.createShortLink("https://example.com");
+
+    expect(await manager.deleteShortLink(shortId)).toBeTrue();
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+    expect(await manager.deleteShortLink(shortId)).toBeFalse();
+});
+
+test("listShortLinks should use the backend", async () => {
+    const page = { links: [], nextCursor: null };
+    const listBackend = {
+        ...dummyBackend,
+        listShortLinks: () => page,
+    };
+
+    const listManager = await createManager({
+        backend: listBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    expect(await listManager.listShortLinks({ limit: 10 })).toBe(page);
+});
+
+test("listShortLinks should throw if the backend does not support it", async () => {
+    await expect(manager.listShortLinks()).rejects.toThrow();
+});
+
+test("restoreShortLink should throw if the backend does not support it", async () => {
+    await expect(manager.restoreShortLink("abc")).rejects.toThrow("The backend does not support restoring short links");
+});
+
+test("createShortLink should throw for attributes the backend cannot read back", async () => {
+    await expect(manager.createShortLink("https://example.com", { password: "secret" })).rejects.toThrow("The backend does not support password protection");
+    await expect(manager.createShortLink("https://example.com", { ttl: 60 })).rejects.toThrow("The backend does not support link expiry");
+    await expect(manager.createShortLink("https://example.com", { expiresAt: Date.now() + 60_000 })).rejects.toThrow("The backend does not support link expiry");
+
+    const clickLimitManager = await createManager({
+        backend: { ...dummyBackend, consumeClick: () => true },
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+    await expect(clickLimitManager.createShortLink("https://example.com", { maxClicks: 1 })).rejects.toThrow("The backend does not support click limits");
+
+    expect(map.size).toBe(0);
+});
+
+test("owner-scoped methods should throw if the backend does not support ownership", async () => {
+    await expect(manager.createShortLink("https://example.com", { ownerId: "alice" })).rejects.toThrow("The backend does not support link ownership");
+    await expect(manager.updateOwnedTargetUrl("alice", "abc", "https://example.com")).rejects.toThrow("The backend does not support link ownership");
+    await expect(manager.deleteOwnedShortLink("alice", "abc")).rejects.toThrow("The backend does not support link ownership");
+    await expect(manager.countShortLinksByOwner("alice")).rejects.toThrow("The backend does not support link ownership");
+});
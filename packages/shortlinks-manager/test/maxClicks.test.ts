@@ -0,0 +1,183 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import { createManager, type IShortLinkAttributes, type IShortLinksManager, type IShortLinksManagerBackend } from "src";
+import type { ICache } from "src/cache";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+// Create a simple in-memory cache for testing
+class InMemoryCache implements ICache {
+    private cache: Map<string, string> = new Map();
+
+    get(shortId: string): string | null {
+        return this.cache.get(shortId) || null;
+    }
+
+    set(shortId: string, targetUrl: string): void {
+        this.cache.set(shortId, targetUrl);
+    }
+
+    delete(shortId: string) {
+        this.cache.delete(shortId);
+    }
+}
+
+type Entry = { targetUrl: string; passwordHash: string | null; remainingClicks: number | null };
+
+let map: Map<string, Entry>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, Entry> };
+let dummyCache: InMemoryCache;
+let manager: IShortLinksManager;
+let shortIdLength = 3;
+
+beforeEach(async () => {
+    map = new Map<string, Entry>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        getShortLink(shortId: string) {
+            const value = map.get(shortId);
+            return value ? { shortId, targetUrl: value.targetUrl, expiresAt: null, passwordHash: value.passwordHash, remainingClicks: value.remainingClicks } : null;
+        },
+        createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): void {
+            map.set(shortId, {
+                targetUrl,
+                passwordHash: attributes?.passwordHash ?? null,
+                remainingClicks: attributes?.maxClicks ?? null,
+            });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        findShortIdByTargetUrl(targetUrl: string): string | null {
+            for (const [shortId, value] of map.entries()) {
+                if (value.targetUrl === targetUrl && value.remainingClicks === null) {
+                    return shortId;
+                }
+            }
+            return null;
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        consumeClick(shortId: string): boolean {
+            const value = map.get(shortId);
+            if (!value?.remainingClicks) {
+                return false;
+            }
+
+            --value.remainingClicks;
+            return true;
+        },
+        updateShortLinkLastAccessTime(): void {},
+        cleanUnusedLinks(): string[] {
+            return [];
+        },
+    };
+
+    dummyCache = new InMemoryCache();
+
+    manager = await createManager({
+        backend: dummyBackend,
+        caches: [dummyCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            reuseExistingForSameTarget: true,
+        },
+    });
+});
+
+test("should resolve a one-time link only once", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { maxClicks: 1 });
+
+    expect(dummyBackend.map.get(shortId)!.remainingClicks).toBe(1);
+    expect(await manager.getTargetUrl(shortId)).toBe(url);
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+});
+
+test("should resolve a link until it runs out of clicks", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { maxClicks: 3 });
+
+    for (let i = 0; i < 3; i++) {
+        expect(await manager.getTargetUrl(shortId)).toBe(url);
+    }
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+    expect(dummyBackend.map.get(shortId)!.remainingClicks).toBe(0);
+});
+
+test("should never cache links with a click limit", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { maxClicks: 2 });
+    expect(dummyCache.get(shortId)).toBeNull();
+
+    await manager.getTargetUrl(shortId);
+    expect(dummyCache.get(shortId)).toBeNull();
+
+    dummyCache.set(shortId, url);
+    await manager.updateTargetUrl(shortId, "https://example.com/new");
+    expect(dummyCache.get(shortId)).toBeNull();
+
+    const results = await manager.createShortLinks(["https://example.com/1"], { maxClicks: 1 });
+    expect(results[0]!.success).toBeTrue();
+    expect(dummyCache.get((results[0] as { shortId: string }).shortId)).toBeNull();
+});
+
+test("should not reuse links with a click limit", async () => {
+    const url = "https://example.com";
+    const limitedShortId = await manager.createShortLink(url, { maxClicks: 1 });
+
+    expect(await manager.createShortLink(url)).not.toBe(limitedShortId);
+});
+
+test("should consume clicks of protected links when the password matches", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { maxClicks: 1, password: "secret" });
+
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+    expect(await manager.resolveProtectedLink(shortId, "wrong")).toBeNull();
+    expect(dummyBackend.map.get(shortId)!.remainingClicks).toBe(1);
+
+    expect(await manager.resolveProtectedLink(shortId, "secret")).toBe(url);
+    expect(await manager.resolveProtectedLink(shortId, "secret")).toBeNull();
+});
+
+test("should reject invalid maxClicks", async () => {
+    await expect(manager.createShortLink("https://example.com", { maxClicks: 0 })).rejects.toThrow();
+    await expect(manager.createShortLink("https://example.com", { maxClicks: 1.5 })).rejects.toThrow();
+});
+
+test("should reject maxClicks if the backend does not support it", async () => {
+    const unsupportedManager = await createManager({
+        backend: { ...dummyBackend, consumeClick: undefined },
+        shortIdLength,
+        onShortIdLengthUpdated: () => {},
+    });
+
+    await expect(unsupportedManager.createShortLink("https://example.com", { maxClicks: 1 })).rejects.toThrow("The backend does not support click limits");
+});
@@ -0,0 +1,140 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import { CACHED_MISS, createManager, type IShortLinkAttributes, type IShortLinksManager, type IShortLinksManagerBackend, LruCache } from "src";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+type Entry = { targetUrl: string; remainingClicks: number | null };
+
+let map: Map<string, Entry>;
+let backendLookups: number;
+let dummyBackend: IShortLinksManagerBackend;
+let cache: LruCache;
+let manager: IShortLinksManager;
+
+beforeEach(async () => {
+    map = new Map<string, Entry>();
+    backendLookups = 0;
+
+    dummyBackend = {
+        getTargetUrl(shortId: string): string | null {
+            ++backendLookups;
+            return map.get(shortId)?.targetUrl ?? null;
+        },
+        getShortLink(shortId: string) {
+            ++backendLookups;
+            const value = map.get(shortId);
+            return value ? { shortId, targetUrl: value.targetUrl, expiresAt: null, remainingClicks: value.remainingClicks } : null;
+        },
+        createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): void {
+            map.set(shortId, { targetUrl, remainingClicks: attributes?.maxClicks ?? null });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl: () => false,
+        deleteShortLink: shortId => map.delete(shortId),
+        consumeClick(shortId: string): boolean {
+            const value = map.get(shortId);
+            if (!value?.remainingClicks) {
+                return false;
+            }
+
+            --value.remainingClicks;
+            return true;
+        },
+        updateShortLinkLastAccessTime(): void {},
+        cleanUnusedLinks: () => [],
+    };
+
+    cache = new LruCache();
+
+    manager = await createManager({
+        backend: dummyBackend,
+        caches: [cache],
+        shortIdLength: 3,
+        onShortIdLengthUpdated: () => {},
+        options: {
+            negativeCacheTtl: 30,
+        },
+    });
+});
+
+test("should cache misses", async () => {
+    expect(await manager.getTargetUrl("missing")).toBeNull();
+    expect(cache.get("missing")).toBe(CACHED_MISS);
+
+    expect(await manager.getTargetUrl("missing")).toBeNull();
+    expect(backendLookups).toBe(1);
+});
+
+test("should not cache misses by default", async () => {
+    const defaultManager = await createManager({
+        backend: dummyBackend,
+        caches: [cache],
+        shortIdLength: 3,
+        onShortIdLengthUpdated: () => {},
+    });
+
+    expect(await defaultManager.getTargetUrl("missing")).toBeNull();
+    expect(cache.get("missing")).toBeNull();
+});
+
+test("should skip caches without negative caching", async () => {
+    const plainCache = {
+        map: new Map<string, string>(),
+        get(shortId: string) {
+            return this.map.get(shortId) ?? null;
+        },
+        set(shortId: string, targetUrl: string) {
+            this.map.set(shortId, targetUrl);
+        },
+    };
+
+    const plainManager = await createManager({
+        backend: dummyBackend,
+        caches: [plainCache, cache],
+        shortIdLength: 3,
+        onShortIdLengthUpdated: () => {},
+        options: {
+            negativeCacheTtl: 30,
+        },
+    });
+
+    expect(await plainManager.getTargetUrl("missing")).toBeNull();
+    expect(plainCache.map.size).toBe(0);
+    expect(cache.get("missing")).toBe(CACHED_MISS);
+});
+
+test("createShortLink should clear a cached miss", async () => {
+    await manager.getTargetUrl("custom");
+    await manager.createShortLink("https://example.com", { shortId: "custom" });
+
+    expect(await manager.getTargetUrl("custom")).toBe("https://example.com");
+});
+
+test("createShortLink should clear a cached miss of links that are not cached", async () => {
+    await manager.getTargetUrl("limited");
+    await manager.createShortLink("https://example.com", { shortId: "limited", maxClicks: 1 });
+
+    expect(cache.get("limited")).toBeNull();
+    expect(await manager.getTargetUrl("limited")).toBe("https://example.com");
+});
+
+test("createShortLinks should clear cached misses", async () => {
+    // First generated short ID
+    await manager.getTargetUrl("aa0");
+
+    const results = await manager.createShortLinks(["https://example.com"], { maxClicks: 1 });
+
+    expect(results[0]).toMatchObject({ success: true, shortId: "aa0" });
+    expect(await manager.getTargetUrl("aa0")).toBe("https://example.com");
+});
@@ -0,0 +1,150 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import { createManager, InvalidShortIdError, type IShortLinksManager, type IShortLinksManagerBackend, ShortIdConflictError } from "src";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+let map: Map<string, { targetUrl: string; lastAccessedAt: Date }>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, { targetUrl: string; lastAccessedAt: Date }> };
+
+let shortIdLength = 3;
+let manager: IShortLinksManager;
+
+beforeEach(async () => {
+    map = new Map<string, { targetUrl: string; lastAccessedAt: Date }>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        createShortLink(shortId: string, targetUrl: string): void {
+            if (map.has(shortId)) {
+                throw new Error("short id not found");
+            }
+
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: new Date(),
+            });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(maxAge: number): string[] {
+            // Delete entries older than maxAge days
+            const now = new Date();
+            const cutoffDate = new Date(now);
+            cutoffDate.setDate(now.getDate() - maxAge);
+
+            const deletedShortIds = [];
+
+            for (const [shortId, data] of map.entries()) {
+                if (data.lastAccessedAt < cutoffDate) {
+                    map.delete(shortId);
+                    deletedShortIds.push(shortId);
+                }
+            }
+
+            return deletedShortIds;
+        },
+    };
+
+    manager = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            customShortId: {
+                reservedWords: ["api", "Admin"],
+            },
+        },
+    });
+});
+
+test("customShortId: should create a link with the requested short ID", async () => {
+    const url = "https://example.com/summer";
+
+    const shortId = await manager.createShortLink(url, { shortId: "summer-sale" });
+
+    expect(shortId).toBe("summer-sale");
+    expect(await manager.getTargetUrl("summer-sale")).toBe(url);
+});
+
+test("customShortId: should throw ShortIdConflictError if the short ID is taken", async () => {
+    await manager.createShortLink("https://example.com/1", { shortId: "taken" });
+
+    const promise = manager.createShortLink("https://example.com/2", { shortId: "taken" });
+
+    await expect(promise).rejects.toBeInstanceOf(ShortIdConflictError);
+    await expect(promise).rejects.toMatchObject({ code: "SHORT_ID_CONFLICT", shortId: "taken" });
+    expect(dummyBackend.map.get("taken")!.targetUrl).toBe("https://example.com/1");
+});
+
+test("customShortId: should reject disallowed characters", async () => {
+    const promise = manager.createShortLink("https://example.com", { shortId: "summer/sale" });
+
+    await expect(promise).rejects.toBeInstanceOf(InvalidShortIdError);
+    await expect(promise).rejects.toMatchObject({ code: "INVALID_SHORT_ID", reason: "characters" });
+    expect(dummyBackend.map.size).toBe(0);
+});
+
+test("customShortId: should reject short IDs outside of the length range", async () => {
+    await expect(manager.createShortLink("https://example.com", { shortId: "ab" })).rejects.toMatchObject({ reason: "length" });
+    await expect(manager.createShortLink("https://example.com", { shortId: "a".repeat(65) })).rejects.toMatchObject({ reason: "length" });
+});
+
+test("customShortId: should reject reserved words case-insensitively", async () => {
+    await expect(manager.createShortLink("https://example.com", { shortId: "API" })).rejects.toMatchObject({ reason: "reserved" });
+    await expect(manager.createShortLink("https://example.com", { shortId: "admin" })).rejects.toMatchObject({ reason: "reserved" });
+});
+
+test("customShortId: should use the configured characters and length range", async () => {
+    const strictManager = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            customShortId: {
+                allowedChars: "abc",
+                minLength: 1,
+                maxLength: 2,
+            },
+        },
+    });
+
+    expect(await strictManager.createShortLink("https://example.com", { shortId: "a" })).toBe("a");
+    await expect(strictManager.createShortLink("https://example.com", { shortId: "ad" })).rejects.toMatchObject({ reason: "characters" });
+    await expect(strictManager.createShortLink("https://example.com", { shortId: "abc" })).rejects.toMatchObject({ reason: "length" });
+});
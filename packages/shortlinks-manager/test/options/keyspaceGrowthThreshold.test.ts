@@ -0,0 +1,62 @@
+import { expect, test } from "bun:test";
+import { createManager, type IShortLinksManagerBackend } from "src";
+
+function createBackend(shortIds: string[]): IShortLinksManagerBackend {
+    const map = new Map(shortIds.map(shortId => [shortId, "https://example.com"]));
+
+    return {
+        getTargetUrl: shortId => map.get(shortId) ?? null,
+        createShortLink(shortId, targetUrl) {
+            map.set(shortId, targetUrl);
+        },
+        checkShortIdsExist: ids => ids.filter(id => map.has(id)),
+        updateTargetUrl: () => false,
+        deleteShortLink: () => false,
+        updateShortLinkLastAccessTime: () => {},
+        cleanUnusedLinks: () => [],
+        countShortIdsOfLength: length => Array.from(map.keys()).filter(id => id.length === length).length,
+    };
+}
+
+test("should grow the length once the threshold of the ID space is used", async () => {
+    // 2 of the 62 one character IDs are taken
+    const lengths: number[] = [];
+    const manager = await createManager({
+        backend: createBackend(["a", "b"]),
+        shortIdLength: 1,
+        onShortIdLengthUpdated: (newLength) => {
+            lengths.push(newLength);
+        },
+        options: {
+            keyspaceGrowthThreshold: 2 / 62,
+        },
+    });
+
+    expect(await manager.createShortLink("https://example.com/1")).toHaveLength(2);
+    expect(lengths).toEqual([2]);
+
+    // Only checked once per manager
+    expect(await manager.createShortLink("https://example.com/2")).toHaveLength(2);
+    expect(lengths).toEqual([2]);
+});
+
+test("should keep the length below the threshold", async () => {
+    const manager = await createManager({
+        backend: createBackend(["a"]),
+        shortIdLength: 1,
+        options: {
+            keyspaceGrowthThreshold: 2 / 62,
+        },
+    });
+
+    expect(await manager.createShortLink("https://example.com")).toHaveLength(1);
+});
+
+test("should reject invalid thresholds and unsupported backends", async () => {
+    const backend = createBackend([]);
+
+    await expect(createManager({ backend, shortIdLength: 4, options: { keyspaceGrowthThreshold: 0 } })).rejects.toThrow("keyspaceGrowthThreshold must be greater than 0 and at most 1");
+    await expect(createManager({ backend, shortIdLength: 4, options: { keyspaceGrowthThreshold: 1.5 } })).rejects.toThrow("keyspaceGrowthThreshold must be greater than 0 and at most 1");
+    await expect(createManager({ backend: { ...backend, countShortIdsOfLength: undefined }, shortIdLength: 4, options: { keyspaceGrowthThreshold: 0.5 } }))
+        .rejects.toThrow("The backend does not support counting short IDs");
+});
@@ -0,0 +1,153 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import { createManager, type IShortLinksManager, type IShortLinksManagerBackend, normaliseUrl } from "src";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+let map: Map<string, { targetUrl: string; lastAccessedAt: Date }>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, { targetUrl: string; lastAccessedAt: Date }> };
+
+let shortIdLength = 3;
+let manager: IShortLinksManager;
+
+beforeEach(async () => {
+    map = new Map<string, { targetUrl: string; lastAccessedAt: Date }>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        getShortLink(shortId: string) {
+            const value = map.get(shortId);
+            return value ? { shortId, targetUrl: value.targetUrl, expiresAt: null } : null;
+        },
+        createShortLink(shortId: string, targetUrl: string): void {
+            if (map.has(shortId)) {
+                throw new Error("short id not found");
+            }
+
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: new Date(),
+            });
+        },
+        findShortIdByTargetUrl(targetUrl: string): string | null {
+            for (const [shortId, data] of map.entries()) {
+                if (normaliseUrl(data.targetUrl) === normaliseUrl(targetUrl)) {
+                    return shortId;
+                }
+            }
+            return null;
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(maxAge: number): string[] {
+            // Delete entries older than maxAge days
+            const now = new Date();
+            const cutoffDate = new Date(now);
+            cutoffDate.setDate(now.getDate() - maxAge);
+
+            const deletedShortIds = [];
+
+            for (const [shortId, data] of map.entries()) {
+                if (data.lastAccessedAt < cutoffDate) {
+                    map.delete(shortId);
+                    deletedShortIds.push(shortId);
+                }
+            }
+
+            return deletedShortIds;
+        },
+    };
+
+    manager = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            reuseExistingForSameTarget: true,
+        },
+    });
+});
+
+test("reuseExistingForSameTarget: should return the existing short ID for the same target", async () => {
+    const shortId1 = await manager.createShortLink("https://example.com/page?b=2&a=1");
+    const shortId2 = await manager.createShortLink("HTTPS://Example.com:443/page?a=1&b=2");
+
+    expect(shortId2).toBe(shortId1);
+    expect(dummyBackend.map.size).toBe(1);
+});
+
+test("reuseExistingForSameTarget: should create a new short ID for a different target", async () => {
+    const shortId1 = await manager.createShortLink("https://example.com/1");
+    const shortId2 = await manager.createShortLink("https://example.com/2");
+
+    expect(shortId2).not.toBe(shortId1);
+    expect(dummyBackend.map.size).toBe(2);
+});
+
+test("reuseExistingForSameTarget: should not reuse when creating customised links", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url);
+
+    expect(await manager.createShortLink(url, { shortId: "custom" })).toBe("custom");
+    expect(await manager.createShortLink(url, { ttl: 60 })).not.toBe(shortId);
+    expect(dummyBackend.map.size).toBe(3);
+});
+
+test("reuseExistingForSameTarget: false should create a new short ID every time", async () => {
+    const managerWithoutReuse = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+    });
+
+    const url = "https://example.com";
+    const shortId1 = await managerWithoutReuse.createShortLink(url);
+    const shortId2 = await managerWithoutReuse.createShortLink(url);
+
+    expect(shortId2).not.toBe(shortId1);
+});
+
+test("reuseExistingForSameTarget: should throw if the backend cannot find links by target URL", async () => {
+    await expect(createManager({
+        backend: { ...dummyBackend, findShortIdByTargetUrl: undefined },
+        shortIdLength,
+        options: {
+            reuseExistingForSameTarget: true,
+        },
+    })).rejects.toThrow("The backend does not support finding links by target URL");
+});
@@ -0,0 +1,163 @@
+import { beforeEach, expect, mock, test } from "bun:test";
+import { createManager, InvalidTargetUrlError, type IShortLinksManager, type IShortLinksManagerBackend, validateTargetUrl } from "src";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+let map: Map<string, { targetUrl: string; lastAccessedAt: Date }>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, { targetUrl: string; lastAccessedAt: Date }> };
+
+let shortIdLength = 3;
+let manager: IShortLinksManager;
+
+beforeEach(async () => {
+    map = new Map<string, { targetUrl: string; lastAccessedAt: Date }>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value?.targetUrl ?? null;
+        },
+        createShortLink(shortId: string, targetUrl: string): void {
+            if (map.has(shortId)) {
+                throw new Error("short id not found");
+            }
+
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: new Date(),
+            });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(maxAge: number): string[] {
+            // Delete entries older than maxAge days
+            const now = new Date();
+            const cutoffDate = new Date(now);
+            cutoffDate.setDate(now.getDate() - maxAge);
+
+            const deletedShortIds = [];
+
+            for (const [shortId, data] of map.entries()) {
+                if (data.lastAccessedAt < cutoffDate) {
+                    map.delete(shortId);
+                    deletedShortIds.push(shortId);
+                }
+            }
+
+            return deletedShortIds;
+        },
+    };
+
+    manager = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            targetUrlValidation: {
+                deniedDomains: ["evil.com"],
+                shortLinkDomains: ["s.poto.nz"],
+                validator: url => url.pathname !== "/blocked" || "Blocked by blocklist",
+            },
+        },
+    });
+});
+
+test("targetUrlValidation: should only allow http and https by default", async () => {
+    await expect(validateTargetUrl("https://poto.nz")).resolves.toBeUndefined();
+    await expect(validateTargetUrl("http://poto.nz")).resolves.toBeUndefined();
+    await expect(validateTargetUrl("javascript:alert(1)")).rejects.toMatchObject({ code: "INVALID_TARGET_URL", reason: "protocol" });
+    await expect(validateTargetUrl("ftp://poto.nz")).rejects.toMatchObject({ reason: "protocol" });
+});
+
+test("targetUrlValidation: should reject relative URLs", async () => {
+    await expect(validateTargetUrl("/relative/path")).rejects.toMatchObject({ reason: "invalid_url" });
+});
+
+test("targetUrlValidation: should reject URLs longer than the max length", async () => {
+    const url = `https://poto.nz/${"a".repeat(65535)}`;
+
+    await expect(validateTargetUrl(url)).rejects.toMatchObject({ reason: "length" });
+    await expect(validateTargetUrl("https://poto.nz/long", { maxLength: 10 })).rejects.toMatchObject({ reason: "length" });
+});
+
+test("targetUrlValidation: should apply domain allow and deny lists including subdomains", async () => {
+    const options = { allowedDomains: ["poto.nz"], deniedDomains: ["bad.poto.nz"] };
+
+    await expect(validateTargetUrl("https://poto.nz", options)).resolves.toBeUndefined();
+    await expect(validateTargetUrl("https://www.POTO.nz", options)).resolves.toBeUndefined();
+    await expect(validateTargetUrl("https://notpoto.nz", options)).rejects.toMatchObject({ reason: "domain_not_allowed" });
+    await expect(validateTargetUrl("https://x.bad.poto.nz", options)).rejects.toMatchObject({ reason: "domain_denied" });
+});
+
+test("targetUrlValidation: should reject links to the short link domains", async () => {
+    await expect(manager.createShortLink("https://s.poto.nz/abc")).rejects.toMatchObject({ reason: "self_reference" });
+    expect(dummyBackend.map.size).toBe(0);
+});
+
+test("targetUrlValidation: should use the custom validator", async () => {
+    const promise = manager.createShortLink("https://poto.nz/blocked");
+
+    await expect(promise).rejects.toBeInstanceOf(InvalidTargetUrlError);
+    await expect(promise).rejects.toMatchObject({ reason: "custom", message: "Blocked by blocklist" });
+    expect(await manager.createShortLink("https://poto.nz/allowed")).toBeString();
+});
+
+test("targetUrlValidation: should validate on update", async () => {
+    const shortId = await manager.createShortLink("https://poto.nz");
+
+    await expect(manager.updateTargetUrl(shortId, "https://evil.com")).rejects.toMatchObject({ reason: "domain_denied" });
+    expect(dummyBackend.map.get(shortId)!.targetUrl).toBe("https://poto.nz");
+});
+
+test("targetUrlValidation: should report failures per link on bulk creation", async () => {
+    const results = await manager.createShortLinks(["https://poto.nz/1", "javascript:alert(1)"]);
+
+    expect(results[0]!.success).toBeTrue();
+    expect(results[1]).toMatchObject({ success: false, error: { reason: "protocol" } });
+});
+
+test("targetUrlValidation: false should accept any string", async () => {
+    const managerWithoutValidation = await createManager({
+        backend: dummyBackend,
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            targetUrlValidation: false,
+        },
+    });
+
+    expect(await managerWithoutValidation.createShortLink("/relative/path")).toBeString();
+});
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, expect, mock, setSystemTime, test } from "bun:test";
+import { createManager, hashPassword, type IShortLinkAttributes, type IShortLinksManager, type IShortLinksManagerBackend, verifyPassword } from "src";
+import type { ICache } from "src/cache";
+
+mock.module("src/utils", () => ({
+    generateUniqueShortIds: (count: number, length: number) => {
+        // Simple mock that generates predictable short IDs for testing
+        const ids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ids.push(`${i}`.padStart(length, "a"));
+        }
+        return ids;
+    },
+}));
+
+// Create a simple in-memory cache for testing
+class InMemoryCache implements ICache {
+    private cache: Map<string, string> = new Map();
+
+    get(shortId: string): string | null {
+        return this.cache.get(shortId) || null;
+    }
+
+    set(shortId: string, targetUrl: string): void {
+        this.cache.set(shortId, targetUrl);
+    }
+
+    delete(shortId: string) {
+        this.cache.delete(shortId);
+    }
+}
+
+type Entry = { targetUrl: string; lastAccessedAt: Date | null; expiresAt: Date | null; passwordHash: string | null };
+
+let map: Map<string, Entry>;
+let dummyBackend: IShortLinksManagerBackend & { map: Map<string, Entry> };
+let dummyCache: InMemoryCache;
+let manager: IShortLinksManager;
+let shortIdLength = 3;
+
+beforeEach(async () => {
+    map = new Map<string, Entry>();
+
+    dummyBackend = {
+        map,
+        getTargetUrl(shortId: string): string | null {
+            const value = map.get(shortId);
+            return value && !value.passwordHash ? value.targetUrl : null;
+        },
+        getShortLink(shortId: string) {
+            const value = map.get(shortId);
+            return value ? { shortId, targetUrl: value.targetUrl, expiresAt: value.expiresAt, passwordHash: value.passwordHash } : null;
+        },
+        createShortLink(shortId: string, targetUrl: string, attributes?: IShortLinkAttributes): void {
+            map.set(shortId, {
+                targetUrl,
+                lastAccessedAt: null,
+                expiresAt: attributes?.expiresAt ?? null,
+                passwordHash: attributes?.passwordHash ?? null,
+            });
+        },
+        checkShortIdsExist(shortIds: string[]): string[] {
+            return shortIds.filter(id => map.has(id));
+        },
+        findShortIdByTargetUrl(targetUrl: string): string | null {
+            for (const [shortId, value] of map.entries()) {
+                if (value.targetUrl === targetUrl && !value.expiresAt && !value.passwordHash) {
+                    return shortId;
+                }
+            }
+            return null;
+        },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
+        updateShortLinkLastAccessTime(shortId: string): void {
+            const value = map.get(shortId);
+            if (value) {
+                value.lastAccessedAt = new Date();
+            }
+        },
+        cleanUnusedLinks(): string[] {
+            return [];
+        },
+    };
+
+    dummyCache = new InMemoryCache();
+
+    manager = await createManager({
+        backend: dummyBackend,
+        caches: [dummyCache],
+        shortIdLength,
+        onShortIdLengthUpdated: (newLength) => {
+            shortIdLength = newLength;
+        },
+        options: {
+            reuseExistingForSameTarget: true,
+        },
+    });
+});
+
+afterEach(() => {
+    setSystemTime();
+});
+
+test("hashPassword should salt the hash", async () => {
+    const hash = await hashPassword("secret");
+
+    expect(hash).not.toContain("secret");
+    expect(await hashPassword("secret")).not.toBe(hash);
+    expect(await verifyPassword("secret", hash)).toBeTrue();
+    expect(await verifyPassword("wrong", hash)).toBeFalse();
+    expect(await verifyPassword("secret", "not-a-hash")).toBeFalse();
+});
+
+test("should only store a hash of the password", async () => {
+    const shortId = await manager.createShortLink("https://example.com", { password: "secret" });
+
+    const passwordHash = dummyBackend.map.get(shortId)!.passwordHash!;
+    expect(passwordHash).not.toContain("secret");
+    expect(await verifyPassword("secret", passwordHash)).toBeTrue();
+});
+
+test("getTargetUrl should not resolve protected links", async () => {
+    const shortId = await manager.createShortLink("https://example.com", { password: "secret" });
+
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+
+    dummyCache.delete(shortId);
+    expect(await manager.getTargetUrl(shortId)).toBeNull();
+    expect(dummyBackend.map.get(shortId)!.lastAccessedAt).toBeNull();
+});
+
+test("should not store the target URL of protected links in caches", async () => {
+    const url = "https://example.com/secret-page";
+    const shortId = await manager.createShortLink(url, { password: "secret" });
+    expect(dummyCache.get(shortId)).not.toContain(url);
+
+    dummyCache.delete(shortId);
+    await manager.getTargetUrl(shortId);
+    expect(dummyCache.get(shortId)).not.toBeNull();
+    expect(dummyCache.get(shortId)).not.toContain(url);
+
+    await manager.updateTargetUrl(shortId, `${url}/new`);
+    expect(dummyCache.get(shortId)).not.toContain(url);
+});
+
+test("resolveProtectedLink should check the password", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url, { password: "secret" });
+
+    expect(await manager.resolveProtectedLink(shortId, "wrong")).toBeNull();
+    expect(dummyBackend.map.get(shortId)!.lastAccessedAt).toBeNull();
+
+    expect(await manager.resolveProtectedLink(shortId, "secret")).toBe(url);
+    expect(dummyBackend.map.get(shortId)!.lastAccessedAt).not.toBeNull();
+
+    expect(await manager.resolveProtectedLink("notFound", "secret")).toBeNull();
+});
+
+test("resolveProtectedLink should resolve links without password", async () => {
+    const url = "https://example.com";
+    const shortId = await manager.createShortLink(url);
+
+    expect(await manager.resolveProtectedLink(shortId, "anything")).toBe(url);
+});
+
+test("resolveProtectedLink should not resolve expired links", async () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    setSystemTime(now);
+    const shortId = await manager.createShortLink("https://example.com", { password: "secret", expiresAt: now.getTime() + 1000 });
+
+    setSystemTime(new Date(now.getTime() + 2000));
+    expect(await manager.resolveProtectedLink(shortId, "secret")).toBeNull();
+});
+
+test("should not reuse protected links", async () => {
+    const url = "https://example.com";
+    const protectedShortId = await manager.createShortLink(url, { password: "secret" });
+    const shortId = await manager.createShortLink(url);
+
+    expect(shortId).not.toBe(protectedShortId);
+    expect(await manager.createShortLink(url, { password: "secret" })).not.toBe(shortId);
+});
+
+test("createShortLinks should protect all links", async () => {
+    const results = await manager.createShortLinks(["https://example.com/1", "https://example.com/2"], { password: "secret" });
+
+    for (const result of results) {
+        expect(result.success).toBeTrue();
+        if (result.success) {
+            expect(await manager.getTargetUrl(result.shortId)).toBeNull();
+            expect(await manager.resolveProtectedLink(result.shortId, "secret")).toBe(result.targetUrl);
+        }
+    }
+});
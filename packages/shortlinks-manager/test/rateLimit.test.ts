@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, expect, setSystemTime, test } from "bun:test";
+import { createManager, FixedWindowRateLimiter, type IShortLinksManager, type IShortLinksManagerBackend, RateLimitExceededError } from "src";
+
+let map: Map<string, string>;
+let manager: IShortLinksManager;
+
+function createBackend(): IShortLinksManagerBackend {
+    return {
+        getTargetUrl: shortId => map.get(shortId) ?? null,
+        createShortLink(shortId, targetUrl) {
+            map.set(shortId, targetUrl);
+        },
+        checkShortIdsExist: shortIds => shortIds.filter(shortId => map.has(shortId)),
+        updateTargetUrl: () => false,
+        deleteShortLink: () => false,
+        updateShortLinkLastAccessTime: () => {},
+        cleanUnusedLinks: () => [],
+        updateOwnedTargetUrl: () => false,
+        deleteOwnedShortLink: () => false,
+        countShortLinksByOwner: () => 0,
+    };
+}
+
+beforeEach(async () => {
+    setSystemTime(new Date("2025-01-01T00:00:00Z"));
+    map = new Map();
+
+    manager = await createManager({
+        backend: createBackend(),
+        shortIdLength: 6,
+        onShortIdLengthUpdated: () => {},
+        rateLimit: {
+            perCaller: new FixedWindowRateLimiter({ limit: 2, window: 60 }),
+            global: new FixedWindowRateLimiter({ limit: 5, window: 3600 }),
+        },
+    });
+});
+
+afterEach(() => {
+    setSystemTime();
+});
+
+test("should limit the links created by each caller", async () => {
+    await manager.createShortLink("https://example.com/1", { callerId: "1.1.1.1" });
+    await manager.createShortLink("https://example.com/2", { callerId: "1.1.1.1" });
+
+    setSystemTime(new Date("2025-01-01T00:00:45Z"));
+    const error = await manager.createShortLink("https://example.com/3", { callerId: "1.1.1.1" }).catch(err => err);
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error.code).toBe("RATE_LIMIT_EXCEEDED");
+    expect(error.key).toBe("1.1.1.1");
+    expect(error.retryAfter).toBe(15);
+    expect(map.size).toBe(2);
+
+    // Other callers are not affected
+    await manager.createShortLink("https://example.com/4", { callerId: "2.2.2.2" });
+
+    // The caller can create links again in the next window
+    setSystemTime(new Date("2025-01-01T00:01:00Z"));
+    await manager.createShortLink("https://example.com/5", { callerId: "1.1.1.1" });
+    expect(map.size).toBe(4);
+});
+
+test("should key the caller limit by owner if no caller is given", async () => {
+    await manager.createShortLink("https://example.com/1", { ownerId: "alice" });
+    await manager.createShortLink("https://example.com/2", { ownerId: "alice" });
+
+    await expect(manager.createShortLink("https://example.com/3", { ownerId: "alice" })).rejects.toBeInstanceOf(RateLimitExceededError);
+});
+
+test("should apply the global limit to all callers", async () => {
+    for (let i = 0; i < 5; i++) {
+        await manager.createShortLink(`https://example.com/${i}`);
+    }
+
+    const error = await manager.createShortLink("https://example.com/5", { callerId: "3.3.3.3" }).catch(err => err);
+    expect(error).toBeInstanceOf(RateLimitExceededError);
+    expect(error.key).toBe("global");
+    expect(error.retryAfter).toBe(3600);
+});
+
+test("should count every link created in bulk", async () => {
+    await expect(manager.createShortLinks(["https://example.com/1", "https://example.com/2", "https://example.com/3"], { callerId: "1.1.1.1" }))
+        .rejects.toBeInstanceOf(RateLimitExceededError);
+    expect(map.size).toBe(0);
+
+    const results = await manager.createShortLinks(["https://example.com/1", "https://example.com/2"], { callerId: "2.2.2.2" });
+    expect(results.every(result => result.success)).toBeTrue();
+});
+
+test("FixedWindowRateLimiter should report the remaining links", () => {
+    const limiter = new FixedWindowRateLimiter({ limit: 3, window: 60 });
+
+    expect(limiter.consume("a", 1)).toEqual({ allowed: true, remaining: 2, retryAfter: 60 });
+    expect(limiter.consume("a", 2)).toEqual({ allowed: true, remaining: 0, retryAfter: 60 });
+    expect(limiter.consume("a", 1)).toEqual({ allowed: false, remaining: 0, retryAfter: 60 });
+});
+
+test("FixedWindowRateLimiter should reject invalid options", () => {
+    expect(() => new FixedWindowRateLimiter({ limit: 0, window: 60 })).toThrow("limit must be a positive integer");
+    expect(() => new FixedWindowRateLimiter({ limit: 1, window: 0 })).toThrow("window must be a positive number");
+});
@@ -0,0 +1,140 @@
+import { expect, test } from "bun:test";
+import {
+    createManager,
+    createRandomShortIdGenerator,
+    createSequentialShortIdGenerator,
+    generateSecureRandomString,
+    type IShortIdGenerator,
+    type IShortLinksManagerBackend,
+    UNAMBIGUOUS_ALPHABET,
+    withProfanityFilter,
+} from "src";
+
+function createBackend(map: Map<string, string>): IShortLinksManagerBackend {
+    return {
+        getTargetUrl: shortId => map.get(shortId) ?? null,
+        createShortLink(shortId, targetUrl) {
+            map.set(shortId, targetUrl);
+        },
+        checkShortIdsExist: shortIds => shortIds.filter(shortId => map.has(shortId)),
+        updateTargetUrl: () => false,
+        deleteShortLink: () => false,
+        updateShortLinkLastAccessTime: () => {},
+        cleanUnusedLinks: () => [],
+    };
+}
+
+/**
+ * Counter shared by generators, like one stored in a database
+ */
+function createCounter() {
+    let counter = 0;
+    return (count: number) => {
+        const first = counter;
+        counter += count;
+        return first;
+    };
+}
+
+test("generateSecureRandomString should only use the alphabet", () => {
+    expect(generateSecureRandomString(1000)).toMatch(/^[0-9a-zA-Z]{1000}$/);
+    expect(generateSecureRandomString(100, "ab")).toMatch(/^[ab]{100}$/);
+});
+
+test("random generator should exclude look-alike characters with the unambiguous alphabet", () => {
+    const generator = createRandomShortIdGenerator({ alphabet: UNAMBIGUOUS_ALPHABET });
+    const ids = generator.generate(200, 8) as string[];
+
+    expect(ids).toHaveLength(200);
+    expect(new Set(ids).size).toBe(200);
+    for (const id of ids) {
+        expect(id).toHaveLength(8);
+        expect(id).not.toMatch(/[0O1lIo]/);
+    }
+});
+
+test("random generator should return fewer IDs when the ID space is too small", () => {
+    const ids = createRandomShortIdGenerator({ alphabet: "ab" }).generate(10, 2) as string[];
+
+    expect(ids.sort()).toEqual(["aa", "ab", "ba", "bb"]);
+});
+
+test("generators should reject invalid alphabets", () => {
+    expect(() => createRandomShortIdGenerator({ alphabet: "a" })).toThrow("alphabet must have between 2 and 256 distinct characters");
+    expect(() => createSequentialShortIdGenerator({ alphabet: "aab", reserve: createCounter() })).toThrow("alphabet must have between 2 and 256 distinct characters");
+});
+
+test("sequential generator should encode the counter with the alphabet", async () => {
+    const generator = createSequentialShortIdGenerator({ reserve: createCounter() });
+
+    expect(await generator.generate(3, 4)).toEqual(["0000", "0001", "0002"]);
+
+    const counter = createSequentialShortIdGenerator({ reserve: () => 61 });
+    expect(await counter.generate(2, 1)).toEqual(["Z", "10"]);
+});
+
+test("profanity filter should drop offensive IDs and make up for them", async () => {
+    const queue = ["fuck", "abcd", "5H1T", "efgh", "ijkl"];
+    const generator: IShortIdGenerator = {
+        generate: (count: number) => queue.splice(0, count),
+    };
+
+    const filtered = withProfanityFilter(generator);
+    expect(await filtered.generate(3, 4)).toEqual(["abcd", "efgh", "ijkl"]);
+
+    const custom = withProfanityFilter(createSequentialShortIdGenerator({ reserve: createCounter() }), { words: ["0001"] });
+    expect(custom.isSequential).toBeTrue();
+    expect(await custom.generate(2, 4)).toEqual(["0000", "0002"]);
+});
+
+test("manager should create links with a custom generator", async () => {
+    const map = new Map<string, string>();
+    const manager = await createManager({
+        backend: createBackend(map),
+        shortIdLength: 4,
+        onShortIdLengthUpdated: () => {},
+        shortIdGenerator: createSequentialShortIdGenerator({ reserve: createCounter() }),
+    });
+
+    expect(await manager.createShortLink("https://example.com/1")).toBe("0000");
+    expect(await manager.createShortLink("https://example.com/2")).toBe("0001");
+
+    const results = await manager.createShortLinks(["https://example.com/3", "https://example.com/4"]);
+    expect(results.map(result => result.success && result.shortId)).toEqual(["0002", "0003"]);
+});
+
+test("manager should skip taken sequential IDs without growing the length", async () => {
+    const map = new Map<string, string>([["0000", ""], ["0001", ""], ["0002", ""]]);
+    const lengths: number[] = [];
+
+    const manager = await createManager({
+        backend: createBackend(map),
+        shortIdLength: 4,
+        onShortIdLengthUpdated: (newLength) => {
+            lengths.push(newLength);
+        },
+        shortIdGenerator: createSequentialShortIdGenerator({ reserve: createCounter() }),
+    });
+
+    expect(await manager.createShortLink("https://example.com")).toBe("0003");
+    expect(lengths).toEqual([]);
+});
+
+test("manager should grow the length when a generator runs out of IDs", async () => {
+    const map = new Map<string, string>([["aa", ""], ["ab", ""], ["ba", ""], ["bb", ""]]);
+    const lengths: number[] = [];
+
+    const manager = await createManager({
+        backend: createBackend(map),
+        shortIdLength: 2,
+        onShortIdLengthUpdated: (newLength) => {
+            lengths.push(newLength);
+        },
+        shortIdGenerator: createRandomShortIdGenerator({ alphabet: "ab" }),
+    });
+
+    const shortId = await manager.createShortLink("https://example.com");
+
+    expect(shortId).toMatch(/^[ab]{3}$/);
+    expect(lengths).toEqual([3]);
+});
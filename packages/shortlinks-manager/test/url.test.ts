@@ -0,0 +1,19 @@
+import { expect, test } from "bun:test";
+import { hashTargetUrl, normaliseUrl } from "src";
+
+test("normaliseUrl should normalise equivalent URLs to the same string", () => {
+    expect(normaliseUrl("HTTPS://Poto.NZ:443/a/../b?z=1&a=2")).toBe("https://poto.nz/b?a=2&z=1");
+    expect(normaliseUrl(" https://poto.nz ")).toBe("https://poto.nz/");
+});
+
+test("normaliseUrl should keep invalid URLs as is", () => {
+    expect(normaliseUrl(" /relative/path ")).toBe("/relative/path");
+});
+
+test("hashTargetUrl should hash the normalised URL", async () => {
+    const hash = await hashTargetUrl("https://poto.nz");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashTargetUrl("HTTPS://POTO.NZ/")).toBe(hash);
+    expect(await hashTargetUrl("https://poto.nz/other")).not.toBe(hash);
+});
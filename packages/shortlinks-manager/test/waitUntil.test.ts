@@ -56,6 +56,18 @@ beforeEach(async () => {
         checkShortIdsExist(shortIds: string[]): string[] {
             return shortIds.filter(id => map.has(id));
         },
+        updateTargetUrl(shortId: string, targetUrl: string): boolean {
+            const value = map.get(shortId);
+            if (!value) {
+                return false;
+            }
+
+            value.targetUrl = targetUrl;
+            return true;
+        },
+        deleteShortLink(shortId: string): boolean {
+            return map.delete(shortId);
+        },
         async updateShortLinkLastAccessTime(shortId: string): Promise<void> {
             const value = map.get(shortId);
             if (value) {
@@ -113,6 +125,8 @@ test("should be called when updating short id length", async () => {
             return [];
         },
         updateShortLinkLastAccessTime: dummyBackend.updateShortLinkLastAccessTime,
+        updateTargetUrl: dummyBackend.updateTargetUrl,
+        deleteShortLink: dummyBackend.deleteShortLink,
         cleanUnusedLinks: dummyBackend.cleanUnusedLinks,
         init: dummyBackend.init,
     };
@@ -207,6 +221,8 @@ test("should not be called with synchronous onShortIdLengthUpdated", async () =>
             return [];
         },
         updateShortLinkLastAccessTime: dummyBackend.updateShortLinkLastAccessTime,
+        updateTargetUrl: dummyBackend.updateTargetUrl,
+        deleteShortLink: dummyBackend.deleteShortLink,
         cleanUnusedLinks: dummyBackend.cleanUnusedLinks,
         init: dummyBackend.init,
     };
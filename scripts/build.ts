@@ -54,6 +54,8 @@ async function buildPackage(name: string) {
     // Remove old files
     rmSync(`./packages/${name}/dist`, { recursive: true, force: true });
 
+    const packageJson = await Bun.file(`./packages/${name}/package.json`).json();
+
     // Bundle
     await Bun.build({
         entrypoints: [`./packages/${name}/src/index.ts`],
@@ -62,7 +64,8 @@ async function buildPackage(name: string) {
         target: "node",
         sourcemap: false,
         minify: true,
-        external: ["node:*", "bun:*"],
+        // Keep dependencies (e.g. the core package) external so they are shared with the consumer
+        external: ["node:*", "bun:*", ...Object.keys(packageJson.dependencies ?? {})],
         banner: `/* ${license} */\n`,
         plugins: [
             dts({
@@ -74,7 +77,6 @@ async function buildPackage(name: string) {
     });
 
     // Remove dependencies from package.json
-    const packageJson = await Bun.file(`./packages/${name}/package.json`).json();
     delete packageJson.devDependencies;
     delete packageJson.peerDependencies;
     delete packageJson.optionalDependencies;